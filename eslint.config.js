@@ -56,6 +56,8 @@ export default [
         'error',
         { argsIgnorePattern: '^_', varsIgnorePattern: '^_' },
       ],
+      // Function overload signatures are not redeclarations
+      'no-redeclare': 'off',
       'no-console': ['warn', { allow: ['warn', 'error'] }],
       'prefer-const': 'error',
       'no-constant-binary-expression': 'off', // Allow constant expressions in tests
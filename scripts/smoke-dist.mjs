@@ -0,0 +1,16 @@
+// Imports the built package the way Node consumers do, to catch output that
+// type-checks but does not load (e.g. extensionless relative imports).
+// Run after `npm run build`.
+import {
+  successResponse,
+  isBaseResponse,
+  STARTER_API_ROUTES,
+} from '../dist/index.js';
+
+if (!isBaseResponse(successResponse(null))) {
+  throw new Error('dist: successResponse() did not produce a BaseResponse');
+}
+if (STARTER_API_ROUTES['GET /health']?.path !== '/health') {
+  throw new Error('dist: STARTER_API_ROUTES is incomplete');
+}
+console.log('dist/index.js loaded');
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import {
+  batchItemFailure,
+  batchItemSuccess,
+  batchResponse,
+  isBatchItemFailure,
+  isBatchItemSuccess,
+  isSuccessResponse,
+  partitionBatchItems,
+  validateHistoryBatchRequest,
+  MAX_BATCH_OPERATIONS,
+} from './index.js';
+import { codesOf } from './test/fixtures.js';
+
+const datetime = '2025-01-15T10:30:00.000Z';
+
+describe('batch builders and guards', () => {
+  const items = [
+    batchItemSuccess('row-1', { id: 'hist-1' }),
+    batchItemFailure('row-2', 'History not found', {
+      code: 'NOT_FOUND',
+      details: { id: 'hist-9' },
+    }),
+    batchItemSuccess('row-3', null),
+  ];
+
+  it('should build items with the structured error fields', () => {
+    expect(items[1]).toEqual({
+      client_id: 'row-2',
+      success: false,
+      error: 'History not found',
+      code: 'NOT_FOUND',
+      details: { id: 'hist-9' },
+    });
+  });
+
+  it('should wrap items in a success envelope with summary counts', () => {
+    const response = batchResponse(items);
+
+    expect(isSuccessResponse(response)).toBe(true);
+    expect(response.data?.summary).toEqual({
+      total: 3,
+      succeeded: 2,
+      failed: 1,
+    });
+    expect(response.data?.items).toBe(items);
+    expect(response).not.toHaveProperty('meta');
+    expect(batchResponse(items, { meta: { requestId: 'req-1' } }).meta).toEqual(
+      { requestId: 'req-1' }
+    );
+  });
+
+  it('should split successes from failures in order', () => {
+    const { successes, failures } = partitionBatchItems(items);
+
+    expect(successes.map((s) => s.client_id)).toEqual(['row-1', 'row-3']);
+    expect(failures.map((f) => f.code)).toEqual(['NOT_FOUND']);
+    expect(items.filter(isBatchItemSuccess)).toHaveLength(2);
+    expect(items.filter(isBatchItemFailure)).toHaveLength(1);
+  });
+});
+
+describe('validateHistoryBatchRequest', () => {
+  it('should accept mixed operations', () => {
+    const input = {
+      operations: [
+        { op: 'create', client_id: 'a', body: { datetime, value: 1 } },
+        {
+          op: 'update',
+          client_id: 'b',
+          id: '3f2b8c1e-9d4a-4f6b-8e2c-7a1d5b9c0e4f',
+          body: { value: 2 },
+        },
+        {
+          op: 'delete',
+          client_id: 'c',
+          id: '9b1e4c7a-2d3f-4a5b-8c6d-0e1f2a3b4c5d',
+        },
+      ],
+    };
+
+    const result = validateHistoryBatchRequest(input);
+
+    expect(result).toEqual({ valid: true, value: input });
+    // Built from the validated operations, not the raw payload.
+    expect(result.valid && result.value).not.toBe(input);
+    expect(result.valid && result.value.operations[0]).not.toBe(
+      input.operations[0]
+    );
+  });
+
+  it('should report operation errors by path', () => {
+    const result = validateHistoryBatchRequest({
+      operations: [
+        { op: 'create', client_id: 'a', body: { datetime, value: -1 } },
+        { op: 'update', client_id: 'a', body: {} },
+        { op: 'delete', client_id: 'c', id: 'hist-2', body: {} },
+        { op: 'upsert', client_id: 'd' },
+        'nope',
+      ],
+      dry_run: true,
+    });
+
+    expect(codesOf(result)).toEqual([
+      'operations[0].body.value:not_positive',
+      'operations[1].client_id:invalid_value',
+      'operations[1].id:missing',
+      'operations[1].body:empty_update',
+      'operations[2].id:invalid_value',
+      'operations[2].body:unknown_field',
+      'operations[3].op:invalid_value',
+      'operations[4]:invalid_type',
+      'dry_run:unknown_field',
+    ]);
+  });
+
+  it('should reject empty, oversized and non-object batches', () => {
+    expect(codesOf(validateHistoryBatchRequest({ operations: [] }))).toEqual([
+      'operations:invalid_value',
+    ]);
+    expect(
+      codesOf(
+        validateHistoryBatchRequest({
+          operations: Array.from(
+            { length: MAX_BATCH_OPERATIONS + 1 },
+            (_, i) => ({ op: 'delete', client_id: `${i}`, id: `${i}` })
+          ),
+        })
+      )
+    ).toEqual(['operations:invalid_value']);
+    expect(codesOf(validateHistoryBatchRequest({}))).toEqual([
+      'operations:missing',
+    ]);
+    expect(codesOf(validateHistoryBatchRequest([]))).toEqual([':invalid_body']);
+  });
+});
@@ -0,0 +1,457 @@
+import type { BaseResponse } from '@sudobility/types';
+import type { ErrorCode, ErrorResponseOptions } from './errors.js';
+import { isHistoryId } from './ids.js';
+import { isPlainObject } from './internal.js';
+import type { ResponseMeta, ResponseOptions } from './meta.js';
+import { successResponse } from './responses.js';
+import type {
+  History,
+  HistoryCreateRequest,
+  HistoryId,
+  HistoryUpdateRequest,
+  ISODateString,
+} from './types.js';
+import {
+  validateHistoryCreateRequest,
+  validateHistoryUpdateRequest,
+  type FieldError,
+  type ValidationResult,
+} from './validation.js';
+
+// =============================================================================
+// Batch Request Types
+// =============================================================================
+
+/** Maximum number of operations in one {@link HistoryBatchRequest}. */
+export const MAX_BATCH_OPERATIONS = 500;
+
+/**
+ * One operation in a {@link HistoryBatchRequest}.
+ *
+ * `client_id` is chosen by the caller and echoed on the matching result, so
+ * results can be correlated without relying on their order. It must be
+ * unique within the batch.
+ */
+export type HistoryBatchOperation =
+  | { op: 'create'; client_id: string; body: HistoryCreateRequest }
+  | {
+      op: 'update';
+      client_id: string;
+      /** Id of the record to update */
+      id: HistoryId;
+      body: HistoryUpdateRequest;
+    }
+  | {
+      op: 'delete';
+      client_id: string;
+      /** Id of the record to delete */
+      id: HistoryId;
+    };
+
+/**
+ * Request body for `POST /history/batch`.
+ *
+ * Operations run in order and independently: one failing does not roll back
+ * or skip the others.
+ *
+ * @example
+ * ```typescript
+ * const id = toHistoryId('3f2b8c1e-9d4a-4f6b-8e2c-7a1d5b9c0e4f');
+ * const batch: HistoryBatchRequest = {
+ *   operations: [
+ *     { op: 'create', client_id: 'row-1', body: { datetime, value: 10 } },
+ *     { op: 'update', client_id: 'row-2', id, body: { value: 5 } },
+ *     { op: 'delete', client_id: 'row-3', id: history.id },
+ *   ],
+ * };
+ * ```
+ */
+export interface HistoryBatchRequest {
+  /** Between 1 and {@link MAX_BATCH_OPERATIONS} operations */
+  operations: HistoryBatchOperation[];
+}
+
+// =============================================================================
+// Batch Response Types
+// =============================================================================
+
+/** A batch operation that succeeded, carrying its result. */
+export interface BatchItemSuccess<T> {
+  /** The operation's `client_id` */
+  client_id: string;
+  success: true;
+  data: T;
+}
+
+/**
+ * A batch operation that failed, carrying the same `code`, `details` and
+ * `fieldErrors` a single-item structured error response would.
+ *
+ * @typeParam C - The error code literal
+ */
+export interface BatchItemFailure<
+  C extends ErrorCode = ErrorCode,
+> extends ErrorResponseOptions<C> {
+  /** The operation's `client_id` */
+  client_id: string;
+  success: false;
+  /** Human-readable error message */
+  error: string;
+}
+
+/** The outcome of one batch operation. */
+export type BatchItemResult<T> = BatchItemSuccess<T> | BatchItemFailure;
+
+/** Counts over the items of a batch. */
+export interface BatchSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+}
+
+/** The `data` of a {@link BatchResponse}. */
+export interface BatchResult<T> {
+  /** One result per operation, in request order */
+  items: BatchItemResult<T>[];
+  summary: BatchSummary;
+}
+
+/**
+ * Response envelope for a batch.
+ *
+ * The outer envelope is an ordinary `BaseResponse`: `success` is `true`
+ * whenever the batch itself was processed, even if some items failed.
+ * Per-item outcomes are in `data.items`. A batch rejected as a whole (e.g.
+ * too many operations) is a regular structured error response instead.
+ *
+ * @typeParam T - The data of a successful item
+ */
+export type BatchResponse<T> = BaseResponse<BatchResult<T>>;
+
+/** Batch response for history: the written record, or `null` for deletes. */
+export type HistoryBatchResponse = BatchResponse<History | null>;
+
+// =============================================================================
+// Builders
+// =============================================================================
+
+/**
+ * Builds a successful batch item.
+ *
+ * @param clientId - The operation's `client_id`
+ * @param data - The operation's result
+ * @returns The item
+ */
+export function batchItemSuccess<T>(
+  clientId: string,
+  data: T
+): BatchItemSuccess<T> {
+  return { client_id: clientId, success: true, data };
+}
+
+/**
+ * Builds a failed batch item.
+ *
+ * @param clientId - The operation's `client_id`
+ * @param error - Human-readable error message
+ * @param options - Error code, details and field errors
+ * @returns The item
+ *
+ * @example
+ * ```typescript
+ * batchItemFailure('row-2', 'History not found', { code: 'NOT_FOUND' });
+ * ```
+ */
+export function batchItemFailure<C extends ErrorCode>(
+  clientId: string,
+  error: string,
+  options: ErrorResponseOptions<C>
+): BatchItemFailure<C> {
+  return { client_id: clientId, success: false, error, ...options };
+}
+
+/**
+ * Wraps batch item results in a success envelope with summary counts.
+ *
+ * @param items - One result per operation, in request order
+ * @param options - Optional `meta` block, as for `successResponse`
+ * @returns The batch response
+ *
+ * @example
+ * ```typescript
+ * const items = batch.operations.map((operation) => apply(operation));
+ * return c.json(batchResponse(items));
+ * ```
+ */
+export function batchResponse<T>(
+  items: BatchItemResult<T>[],
+  options: ResponseOptions = {}
+): BatchResponse<T> & { timestamp: ISODateString; meta?: ResponseMeta } {
+  const succeeded = items.filter(isBatchItemSuccess).length;
+  return successResponse(
+    {
+      items,
+      summary: {
+        total: items.length,
+        succeeded,
+        failed: items.length - succeeded,
+      },
+    },
+    options
+  );
+}
+
+// =============================================================================
+// Guards
+// =============================================================================
+
+/**
+ * Narrows a batch item to a success.
+ *
+ * @param item - The item to check
+ * @returns `true` if the operation succeeded
+ */
+export function isBatchItemSuccess<T>(
+  item: BatchItemResult<T>
+): item is BatchItemSuccess<T> {
+  return item.success;
+}
+
+/**
+ * Narrows a batch item to a failure.
+ *
+ * @param item - The item to check
+ * @returns `true` if the operation failed
+ */
+export function isBatchItemFailure<T>(
+  item: BatchItemResult<T>
+): item is BatchItemFailure {
+  return !item.success;
+}
+
+/**
+ * Splits batch items into successes and failures, preserving order.
+ *
+ * @param items - The items of a batch result
+ * @returns The successful and failed items
+ *
+ * @example
+ * ```typescript
+ * const { successes, failures } = partitionBatchItems(response.data.items);
+ * failures.forEach((f) => markRowInvalid(f.client_id, f.fieldErrors));
+ * ```
+ */
+export function partitionBatchItems<T>(items: readonly BatchItemResult<T>[]): {
+  successes: BatchItemSuccess<T>[];
+  failures: BatchItemFailure[];
+} {
+  return {
+    successes: items.filter(isBatchItemSuccess),
+    failures: items.filter(isBatchItemFailure),
+  };
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+const OPERATION_FIELDS = {
+  create: ['op', 'client_id', 'body'],
+  update: ['op', 'client_id', 'id', 'body'],
+  delete: ['op', 'client_id', 'id'],
+} as const;
+
+function checkString(
+  operation: Record<string, unknown>,
+  key: 'client_id' | 'id',
+  prefix: string,
+  errors: FieldError[]
+): string | undefined {
+  const value = operation[key];
+  if (value === undefined) {
+    errors.push({
+      field: `${prefix}.${key}`,
+      code: 'missing',
+      message: `${key} is required`,
+    });
+  } else if (typeof value !== 'string' || value === '') {
+    errors.push({
+      field: `${prefix}.${key}`,
+      code: 'invalid_type',
+      message: `${key} must be a non-empty string`,
+    });
+  } else if (key === 'id' && !isHistoryId(value)) {
+    errors.push({
+      field: `${prefix}.${key}`,
+      code: 'invalid_value',
+      message: 'id must be a lowercase UUID',
+    });
+  } else {
+    return value;
+  }
+  return undefined;
+}
+
+function checkBody<T>(
+  result: ValidationResult<T>,
+  prefix: string,
+  errors: FieldError[]
+): T | undefined {
+  if (result.valid) {
+    return result.value;
+  }
+  for (const error of result.errors) {
+    errors.push({
+      ...error,
+      field: `${prefix}.body${error.field ? `.${error.field}` : ''}`,
+    });
+  }
+  return undefined;
+}
+
+// Returns the typed operation, or undefined after adding its errors.
+function validateOperation(
+  operation: unknown,
+  prefix: string,
+  seen: Set<string>,
+  errors: FieldError[]
+): HistoryBatchOperation | undefined {
+  if (!isPlainObject(operation)) {
+    errors.push({
+      field: prefix,
+      code: 'invalid_type',
+      message: 'operation must be an object',
+    });
+    return undefined;
+  }
+  const op = operation.op;
+  if (op !== 'create' && op !== 'update' && op !== 'delete') {
+    errors.push({
+      field: `${prefix}.op`,
+      code: 'invalid_value',
+      message: 'op must be one of create, update, delete',
+    });
+    return undefined;
+  }
+
+  const errorCount = errors.length;
+  const clientId = checkString(operation, 'client_id', prefix, errors);
+  if (clientId !== undefined) {
+    if (seen.has(clientId)) {
+      errors.push({
+        field: `${prefix}.client_id`,
+        code: 'invalid_value',
+        message: `client_id ${clientId} is used more than once`,
+      });
+    }
+    seen.add(clientId);
+  }
+  const id =
+    op === 'create' ? undefined : checkString(operation, 'id', prefix, errors);
+  const create =
+    op === 'create'
+      ? checkBody(validateHistoryCreateRequest(operation.body), prefix, errors)
+      : undefined;
+  const update =
+    op === 'update'
+      ? checkBody(validateHistoryUpdateRequest(operation.body), prefix, errors)
+      : undefined;
+  for (const key of Object.keys(operation)) {
+    if (!(OPERATION_FIELDS[op] as readonly string[]).includes(key)) {
+      errors.push({
+        field: `${prefix}.${key}`,
+        code: 'unknown_field',
+        message: `${key} is not a recognized field`,
+      });
+    }
+  }
+
+  if (errors.length > errorCount || clientId === undefined) {
+    return undefined;
+  }
+  if (op === 'create') {
+    return create && { op, client_id: clientId, body: create };
+  }
+  if (id === undefined || !isHistoryId(id)) {
+    return undefined;
+  }
+  return op === 'update'
+    ? update && { op, client_id: clientId, id, body: update }
+    : { op, client_id: clientId, id };
+}
+
+/**
+ * Validates an untrusted payload as a {@link HistoryBatchRequest}.
+ *
+ * Operation bodies are checked with the single-item validators. Field
+ * errors are keyed by path, e.g. `operations[2].body.value`, and duplicate
+ * `client_id`s are rejected with `invalid_value`. A batch that fails
+ * validation is rejected as a whole; per-item failures are for problems
+ * found while applying an operation, such as a missing record.
+ *
+ * @param input - The raw payload, e.g. a parsed JSON request body
+ * @returns The typed request, or the list of field errors
+ */
+export function validateHistoryBatchRequest(
+  input: unknown
+): ValidationResult<HistoryBatchRequest> {
+  if (!isPlainObject(input)) {
+    return {
+      valid: false,
+      errors: [
+        {
+          field: '',
+          code: 'invalid_body',
+          message: 'request body must be an object',
+        },
+      ],
+    };
+  }
+
+  const errors: FieldError[] = [];
+  const value: HistoryBatchRequest = { operations: [] };
+  const { operations } = input;
+  if (!Array.isArray(operations)) {
+    errors.push({
+      field: 'operations',
+      code: operations === undefined ? 'missing' : 'invalid_type',
+      message: 'operations must be an array',
+    });
+  } else if (
+    operations.length === 0 ||
+    operations.length > MAX_BATCH_OPERATIONS
+  ) {
+    errors.push({
+      field: 'operations',
+      code: 'invalid_value',
+      message: `operations must contain between 1 and ${MAX_BATCH_OPERATIONS} items`,
+    });
+  } else {
+    const seen = new Set<string>();
+    operations.forEach((operation: unknown, index) => {
+      const validated = validateOperation(
+        operation,
+        `operations[${index}]`,
+        seen,
+        errors
+      );
+      if (validated) {
+        value.operations.push(validated);
+      }
+    });
+  }
+  for (const key of Object.keys(input)) {
+    if (key !== 'operations') {
+      errors.push({
+        field: key,
+        code: 'unknown_field',
+        message: `${key} is not a recognized field`,
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  return { valid: true, value };
+}
@@ -0,0 +1,207 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  StarterApiClient,
+  isStructuredErrorResponse,
+  isSuccessResponse,
+  toHistoryId,
+  toUserId,
+  type HistoryId,
+  type NetworkClient,
+} from './index.js';
+
+function networkResponse(body: object, status = 200) {
+  return {
+    ...body,
+    ok: status < 400,
+    status,
+    statusText: status < 400 ? 'OK' : 'Error',
+    headers: { 'content-type': 'application/json' },
+  };
+}
+
+function mockClient(response: unknown): NetworkClient {
+  const request = vi.fn().mockResolvedValue(response);
+  return {
+    request,
+    get: vi.fn(),
+    post: vi.fn(),
+    put: vi.fn(),
+    delete: vi.fn(),
+  };
+}
+
+const history = {
+  id: toHistoryId('3f2b8c1e-9d4a-4f6b-8e2c-7a1d5b9c0e4f'),
+  user_id: toUserId('uid123'),
+  datetime: '2025-01-15T10:30:00.000Z',
+  value: 42.5,
+  created_at: '2025-01-15T10:30:00.000Z',
+  updated_at: null,
+};
+
+describe('StarterApiClient', () => {
+  it('should join the base URL and path without double slashes', async () => {
+    const network = mockClient(
+      networkResponse({
+        success: true,
+        data: { status: 'ok', version: '1.0.0' },
+        timestamp: '2025-01-15T10:30:00.000Z',
+      })
+    );
+    const api = new StarterApiClient(network, {
+      baseUrl: 'https://api.example.com/v1/',
+    });
+
+    await api.getHealth();
+
+    expect(network.request).toHaveBeenCalledWith(
+      'https://api.example.com/v1/health',
+      { method: 'GET', headers: { Accept: 'application/json' } }
+    );
+  });
+
+  it('should inject the bearer token only on authenticated routes', async () => {
+    const network = mockClient(
+      networkResponse({
+        success: true,
+        data: { total: 1 },
+        timestamp: '2025-01-15T10:30:00.000Z',
+      })
+    );
+    const getAuthToken = vi.fn().mockResolvedValue('token-abc');
+    const api = new StarterApiClient(network, {
+      baseUrl: 'https://api.example.com',
+      getAuthToken,
+    });
+
+    await api.getHistoryTotal();
+    await api.getApiInfo();
+
+    const calls = vi.mocked(network.request).mock.calls;
+    expect(calls[0][1]?.headers).toEqual({
+      Accept: 'application/json',
+      Authorization: 'Bearer token-abc',
+    });
+    expect(calls[1][1]?.headers).toEqual({ Accept: 'application/json' });
+    expect(getAuthToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send JSON bodies, path params and queries', async () => {
+    const network = mockClient(
+      networkResponse({
+        success: true,
+        data: history,
+        timestamp: '2025-01-15T10:30:00.000Z',
+      })
+    );
+    const api = new StarterApiClient(network, {
+      baseUrl: 'https://api.example.com',
+    });
+
+    await api.updateHistory('hist/1' as HistoryId, { value: 150 });
+    await api.getHistories({ limit: 10, order: 'asc' });
+
+    const calls = vi.mocked(network.request).mock.calls;
+    expect(calls[0][0]).toBe('https://api.example.com/history/hist%2F1');
+    expect(calls[0][1]).toMatchObject({
+      method: 'PATCH',
+      body: '{"value":150}',
+      headers: { 'Content-Type': 'application/json' },
+    });
+    expect(calls[1][0]).toBe(
+      'https://api.example.com/history?order=asc&limit=10'
+    );
+  });
+
+  it('should strip transport fields from the returned envelope', async () => {
+    const network = mockClient(
+      networkResponse({
+        success: true,
+        data: history,
+        timestamp: '2025-01-15T10:30:00.000Z',
+      })
+    );
+    const api = new StarterApiClient(network, {
+      baseUrl: 'https://api.example.com',
+    });
+
+    const response = await api.getHistory(history.id);
+
+    expect(isSuccessResponse(response)).toBe(true);
+    expect(Object.keys(response).sort()).toEqual([
+      'data',
+      'success',
+      'timestamp',
+    ]);
+  });
+
+  it('should pass server error envelopes through', async () => {
+    const network = mockClient(
+      networkResponse(
+        {
+          success: false,
+          error: 'History not found',
+          code: 'NOT_FOUND',
+          timestamp: '2025-01-15T10:30:00.000Z',
+        },
+        404
+      )
+    );
+    const api = new StarterApiClient(network, {
+      baseUrl: 'https://api.example.com',
+    });
+
+    const response = await api.deleteHistory(
+      toHistoryId('00000000-0000-4000-8000-000000000000')
+    );
+
+    expect(isStructuredErrorResponse(response, 'NOT_FOUND')).toBe(true);
+  });
+
+  it('should convert transport failures to UNAVAILABLE errors', async () => {
+    const network = mockClient(undefined);
+    vi.mocked(network.request).mockRejectedValue(new Error('ECONNREFUSED'));
+    const api = new StarterApiClient(network, {
+      baseUrl: 'https://api.example.com',
+    });
+
+    const response = await api.getCurrentUser();
+
+    expect(isStructuredErrorResponse(response, 'UNAVAILABLE')).toBe(true);
+    expect(response.error).toBe('ECONNREFUSED');
+  });
+
+  it('should convert token provider failures to UNAUTHORIZED errors', async () => {
+    const network = mockClient(networkResponse({ data: [] }));
+    const api = new StarterApiClient(network, {
+      baseUrl: 'https://api.example.com',
+      getAuthToken: () => Promise.reject(new Error('boom')),
+    });
+
+    const response = await api.getHistories();
+
+    expect(isStructuredErrorResponse(response, 'UNAUTHORIZED')).toBe(true);
+    expect(response.error).toBe('boom');
+    expect(network.request).not.toHaveBeenCalled();
+  });
+
+  it('should reject malformed envelopes', async () => {
+    for (const body of [
+      networkResponse({ data: history }),
+      networkResponse({ success: false, timestamp: 'now' }),
+      networkResponse({ success: true, timestamp: 'now' }, 500),
+      null,
+    ]) {
+      const api = new StarterApiClient(mockClient(body), {
+        baseUrl: 'https://api.example.com',
+      });
+
+      const response = await api.createHistory({
+        datetime: '2025-01-15T10:30:00.000Z',
+        value: 1,
+      });
+
+      expect(isStructuredErrorResponse(response, 'UNAVAILABLE')).toBe(true);
+    }
+  });
+});
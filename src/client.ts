@@ -0,0 +1,238 @@
+import type {
+  NetworkClient,
+  NetworkRequestOptions,
+  NetworkResponse,
+  Optional,
+} from '@sudobility/types';
+import type { HistoryBatchRequest } from './batch.js';
+import type { StructuredErrorResponse } from './errors.js';
+import {
+  serializeHistoryQuery,
+  serializeHistoryTotalRequest,
+  type HistoryQuery,
+  type HistoryTotalRequest,
+} from './query.js';
+import { errorResponse, isBaseResponse } from './responses.js';
+import {
+  buildPath,
+  STARTER_API_ROUTES,
+  type PathParams,
+  type PathOf,
+  type ResponseOf,
+  type RouteDefinition,
+  type RouteKey,
+} from './routes.js';
+import type {
+  HistoryCreateRequest,
+  HistoryId,
+  HistoryUpdateRequest,
+} from './types.js';
+
+// =============================================================================
+// Client Types
+// =============================================================================
+
+/**
+ * Supplies the Firebase ID token sent as `Authorization: Bearer <token>` on
+ * authenticated endpoints. Returning `null`/`undefined` sends no header;
+ * throwing or rejecting fails the call with `UNAUTHORIZED`.
+ */
+export type AuthTokenProvider = () =>
+  Optional<string> | Promise<Optional<string>>;
+
+/**
+ * Configuration for {@link StarterApiClient}.
+ */
+export interface StarterApiClientOptions {
+  /** API origin and optional prefix, e.g. `https://api.example.com/v1` */
+  baseUrl: string;
+  /** Token source for authenticated endpoints */
+  getAuthToken?: AuthTokenProvider;
+}
+
+/**
+ * What a {@link StarterApiClient} method resolves to: the endpoint's response
+ * envelope, or a structured error produced by the server or by the client
+ * itself when the transport fails.
+ *
+ * @typeParam K - The route key
+ */
+export type ClientResponse<K extends RouteKey> =
+  ResponseOf<K> | StructuredErrorResponse;
+
+// =============================================================================
+// Client
+// =============================================================================
+
+/**
+ * Typed client for the Starter API, built on any {@link NetworkClient}.
+ *
+ * Every method resolves (never rejects) with a response envelope. Transport
+ * failures and responses that are not a valid {@link BaseResponse} envelope
+ * resolve to an `UNAVAILABLE` structured error instead, and a token provider
+ * that throws or rejects to an `UNAUTHORIZED` one without sending the
+ * request, so callers only ever branch on `success`.
+ *
+ * @example
+ * ```typescript
+ * const api = new StarterApiClient(networkClient, {
+ *   baseUrl: 'https://api.example.com',
+ *   getAuthToken: () => auth.currentUser?.getIdToken(),
+ * });
+ *
+ * const response = await api.createHistory({ datetime, value: 42 });
+ * if (isSuccessResponse(response)) {
+ *   console.log(response.data.id);
+ * }
+ * ```
+ */
+export class StarterApiClient {
+  private readonly baseUrl: string;
+
+  constructor(
+    private readonly network: NetworkClient,
+    private readonly options: StarterApiClientOptions
+  ) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+  }
+
+  /** `GET /` - API name, version and status. */
+  getApiInfo(): Promise<ClientResponse<'GET /'>> {
+    return this.send('GET /');
+  }
+
+  /** `GET /health` - service health. */
+  getHealth(): Promise<ClientResponse<'GET /health'>> {
+    return this.send('GET /health');
+  }
+
+  /** `GET /users/me` - the authenticated user's profile. */
+  getCurrentUser(): Promise<ClientResponse<'GET /users/me'>> {
+    return this.send('GET /users/me');
+  }
+
+  /** `GET /history` - one page of the user's history records. */
+  getHistories(
+    query: HistoryQuery = {}
+  ): Promise<ClientResponse<'GET /history'>> {
+    return this.send('GET /history', {
+      query: serializeHistoryQuery(query),
+    });
+  }
+
+  /** `GET /history/:id` - a single history record. */
+  getHistory(id: HistoryId): Promise<ClientResponse<'GET /history/:id'>> {
+    return this.send('GET /history/:id', { params: { id } });
+  }
+
+  /** `POST /history` - creates a history record. */
+  createHistory(
+    body: HistoryCreateRequest
+  ): Promise<ClientResponse<'POST /history'>> {
+    return this.send('POST /history', { body });
+  }
+
+  /** `POST /history/batch` - applies mixed create/update/delete operations. */
+  batchHistory(
+    body: HistoryBatchRequest
+  ): Promise<ClientResponse<'POST /history/batch'>> {
+    return this.send('POST /history/batch', { body });
+  }
+
+  /** `PATCH /history/:id` - partially updates a history record. */
+  updateHistory(
+    id: HistoryId,
+    body: HistoryUpdateRequest
+  ): Promise<ClientResponse<'PATCH /history/:id'>> {
+    return this.send('PATCH /history/:id', { params: { id }, body });
+  }
+
+  /** `DELETE /history/:id` - deletes a history record. */
+  deleteHistory(id: HistoryId): Promise<ClientResponse<'DELETE /history/:id'>> {
+    return this.send('DELETE /history/:id', { params: { id } });
+  }
+
+  /** `GET /history/total` - sum of the user's history values in a range. */
+  getHistoryTotal(
+    request: HistoryTotalRequest = {}
+  ): Promise<ClientResponse<'GET /history/total'>> {
+    return this.send('GET /history/total', {
+      query: serializeHistoryTotalRequest(request),
+    });
+  }
+
+  /** `GET /history/stats` - summary statistics of the user's history. */
+  getHistoryStats(): Promise<ClientResponse<'GET /history/stats'>> {
+    return this.send('GET /history/stats');
+  }
+
+  private async send<K extends RouteKey>(
+    key: K,
+    request: {
+      params?: PathParams<PathOf<K>>;
+      /** Serialized query string, without `?` */
+      query?: string;
+      body?: unknown;
+    } = {}
+  ): Promise<ClientResponse<K>> {
+    const route: RouteDefinition = STARTER_API_ROUTES[key];
+    const path = (buildPath as (path: string, params?: object) => string)(
+      route.path,
+      request.params
+    );
+    const url = `${this.baseUrl}${path}${request.query ? `?${request.query}` : ''}`;
+
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (route.auth && this.options.getAuthToken) {
+      let token: Optional<string>;
+      try {
+        token = await this.options.getAuthToken();
+      } catch (error) {
+        return errorResponse(
+          error instanceof Error ? error.message : 'Could not get auth token',
+          { code: 'UNAUTHORIZED', details: { method: route.method, url } }
+        );
+      }
+      if (token) {
+        headers.Authorization = `Bearer ${token}`;
+      }
+    }
+    const init: NetworkRequestOptions = {
+      method: route.method,
+      headers,
+    };
+    if (request.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+      init.body = JSON.stringify(request.body);
+    }
+
+    let response: NetworkResponse<unknown>;
+    try {
+      response = await this.network.request(url, init);
+    } catch (error) {
+      return errorResponse(
+        error instanceof Error ? error.message : 'Network request failed',
+        { code: 'UNAVAILABLE', details: { method: route.method, url } }
+      );
+    }
+
+    if (
+      !isBaseResponse(response) ||
+      (response.success && response.ok === false)
+    ) {
+      return errorResponse('Malformed response from Starter API', {
+        code: 'UNAVAILABLE',
+        details: { method: route.method, url, status: response?.status },
+      });
+    }
+
+    const {
+      ok: _ok,
+      status: _status,
+      statusText: _statusText,
+      headers: _headers,
+      ...envelope
+    } = response;
+    return envelope as ClientResponse<K>;
+  }
+}
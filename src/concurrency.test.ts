@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkHistoryRevision,
+  errorResponse,
+  historyConflictResponse,
+  historyETag,
+  isHistoryConflictResponse,
+  mergeHistoryUpdate,
+  successResponse,
+  toHistoryId,
+  toISODateString,
+  toUserId,
+  type History,
+} from './index.js';
+
+const base: History = {
+  id: toHistoryId('3f2b8c1e-9d4a-4f6b-8e2c-7a1d5b9c0e4f'),
+  user_id: toUserId('uid123'),
+  datetime: toISODateString('2025-01-15T10:30:00.000Z'),
+  value: 42.5,
+  created_at: toISODateString('2025-01-15T10:31:00.000Z'),
+  updated_at: null,
+  revision: 1,
+};
+
+const current: History = {
+  ...base,
+  value: 50,
+  updated_at: toISODateString('2025-01-16T08:00:00.000Z'),
+  revision: 2,
+};
+
+describe('conflict responses', () => {
+  it('should carry the current record and the expected revision', () => {
+    const response = historyConflictResponse(current, 1, {
+      meta: { requestId: 'req_1' },
+    });
+
+    expect(response).toMatchObject({
+      success: false,
+      error: 'History was modified: revision 2, expected 1',
+      code: 'CONFLICT',
+      details: { current, expected_revision: 1 },
+      meta: { requestId: 'req_1' },
+    });
+    expect(isHistoryConflictResponse(response)).toBe(true);
+  });
+
+  it('should only recognize conflicts with a current record', () => {
+    expect(
+      isHistoryConflictResponse(errorResponse('Taken', { code: 'CONFLICT' }))
+    ).toBe(false);
+    expect(
+      isHistoryConflictResponse(
+        errorResponse('Missing', {
+          code: 'NOT_FOUND',
+          details: { current },
+        })
+      )
+    ).toBe(false);
+    expect(isHistoryConflictResponse(successResponse(current))).toBe(false);
+  });
+
+  it('should check expected_revision only when given', () => {
+    expect(checkHistoryRevision(current, { value: 1 })).toBeNull();
+    expect(
+      checkHistoryRevision(current, { value: 1, expected_revision: 2 })
+    ).toBeNull();
+    expect(
+      checkHistoryRevision(current, { value: 1, expected_revision: 1 })
+    ).toMatchObject({ code: 'CONFLICT', details: { expected_revision: 1 } });
+  });
+});
+
+describe('historyETag', () => {
+  it('should be a quoted tag that is stable for the same state', () => {
+    const tag = historyETag(base);
+
+    expect(tag).toMatch(/^"1-[0-9a-f]{8}"$/);
+    expect(historyETag({ ...base })).toBe(tag);
+    expect(historyETag({ ...base, value: 42.6 })).not.toBe(tag);
+    expect(historyETag(current)).toMatch(/^"2-/);
+  });
+});
+
+describe('mergeHistoryUpdate', () => {
+  it('should keep local changes to fields the server left alone', () => {
+    expect(
+      mergeHistoryUpdate(
+        base,
+        { datetime: '2025-01-20T00:00:00Z', expected_revision: 1 },
+        current
+      )
+    ).toEqual({
+      merged: true,
+      update: { datetime: '2025-01-20T00:00:00Z', expected_revision: 2 },
+    });
+  });
+
+  it('should drop changes the server already has', () => {
+    expect(mergeHistoryUpdate(base, { value: 50 }, current)).toEqual({
+      merged: true,
+      update: null,
+    });
+    expect(
+      mergeHistoryUpdate(
+        base,
+        { datetime: '2025-01-15T11:30:00+01:00', value: 50 },
+        current
+      )
+    ).toEqual({ merged: true, update: null });
+  });
+
+  it('should report fields both sides changed differently', () => {
+    expect(
+      mergeHistoryUpdate(
+        base,
+        { datetime: '2025-01-20T00:00:00Z', value: 60 },
+        current
+      )
+    ).toEqual({ merged: false, conflicts: ['value'] });
+  });
+});
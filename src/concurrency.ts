@@ -0,0 +1,260 @@
+import type { BaseResponse } from '@sudobility/types';
+import { parseISODateString } from './dates.js';
+import type { StructuredErrorResponse } from './errors.js';
+import type { ResponseOptions } from './meta.js';
+import { errorResponse, isStructuredErrorResponse } from './responses.js';
+import type {
+  History,
+  HistoryCreateRequest,
+  HistoryUpdateRequest,
+} from './types.js';
+
+// =============================================================================
+// Conflict Responses
+// =============================================================================
+
+/** `details` of a {@link HistoryConflictResponse}. */
+export interface HistoryConflictDetails {
+  /** The record as currently stored on the server */
+  current: History;
+  /** The revision the rejected update expected */
+  expected_revision: number;
+}
+
+/**
+ * `CONFLICT` error for an update whose `expected_revision` no longer
+ * matches the stored record. Carries the current record, so the client can
+ * merge its edit with {@link mergeHistoryUpdate} and retry without another
+ * request.
+ *
+ * @example
+ * ```typescript
+ * const response: HistoryConflictResponse = {
+ *   success: false,
+ *   error: 'History was modified: revision 4, expected 3',
+ *   code: 'CONFLICT',
+ *   details: { current: history, expected_revision: 3 },
+ *   timestamp: '2025-01-15T10:30:00.000Z',
+ * };
+ * ```
+ */
+export type HistoryConflictResponse = StructuredErrorResponse<'CONFLICT'> & {
+  details: HistoryConflictDetails;
+};
+
+/**
+ * Builds the {@link HistoryConflictResponse} for a stale update.
+ *
+ * @param current - The record as currently stored
+ * @param expectedRevision - The `expected_revision` of the rejected update
+ * @param options - Optional response metadata
+ * @returns The conflict response
+ *
+ * @example
+ * ```typescript
+ * const response = historyConflictResponse(stored, body.expected_revision);
+ * return c.json(response, ERROR_CODE_HTTP_STATUS.CONFLICT);
+ * ```
+ */
+export function historyConflictResponse(
+  current: History,
+  expectedRevision: number,
+  options: ResponseOptions = {}
+): HistoryConflictResponse {
+  return errorResponse(
+    `History was modified: revision ${current.revision}, expected ${expectedRevision}`,
+    {
+      code: 'CONFLICT',
+      details: { current, expected_revision: expectedRevision },
+      ...options,
+    }
+  ) as HistoryConflictResponse;
+}
+
+/**
+ * Checks an update's `expected_revision` against the stored record.
+ *
+ * @param current - The record as currently stored
+ * @param update - A validated update request
+ * @returns The conflict response to send, or `null` if the update may be
+ * applied (including when it has no `expected_revision`)
+ *
+ * @example
+ * ```typescript
+ * const conflict = checkHistoryRevision(stored, update);
+ * if (conflict) {
+ *   return c.json(conflict, 409);
+ * }
+ * ```
+ */
+export function checkHistoryRevision(
+  current: History,
+  update: HistoryUpdateRequest
+): HistoryConflictResponse | null {
+  const expected = update.expected_revision;
+  return expected === undefined || expected === current.revision
+    ? null
+    : historyConflictResponse(current, expected);
+}
+
+/**
+ * Type guard for {@link HistoryConflictResponse}: a `CONFLICT` error whose
+ * details carry the current record.
+ *
+ * @param response - Any API response
+ * @returns `true` if the response is a history conflict
+ *
+ * @example
+ * ```typescript
+ * const response = await api.updateHistory(id, update);
+ * if (isHistoryConflictResponse(response)) {
+ *   const merge = mergeHistoryUpdate(base, update, response.details.current);
+ * }
+ * ```
+ */
+export function isHistoryConflictResponse(
+  response: BaseResponse<unknown>
+): response is HistoryConflictResponse {
+  if (!isStructuredErrorResponse(response, 'CONFLICT')) {
+    return false;
+  }
+  const current = (response.details as Partial<HistoryConflictDetails>)
+    ?.current;
+  return (
+    typeof current === 'object' &&
+    current !== null &&
+    typeof current.revision === 'number'
+  );
+}
+
+// =============================================================================
+// ETags
+// =============================================================================
+
+// 32-bit FNV-1a over UTF-16 code units: tiny, stable across runtimes, and
+// enough to tell revisions of one record apart.
+function fnv1a(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Computes a strong HTTP ETag for a record, for use with `ETag` and
+ * `If-Match` headers.
+ *
+ * The tag depends only on the record's fields, so every server instance
+ * computes the same tag for the same stored state.
+ *
+ * @param history - The record
+ * @returns A quoted entity tag such as `"3-9f2c61a0"`
+ *
+ * @example
+ * ```typescript
+ * c.header('ETag', historyETag(history));
+ * const stale = c.req.header('If-Match') !== historyETag(stored);
+ * ```
+ */
+export function historyETag(history: History): string {
+  const fields = JSON.stringify([
+    history.id,
+    history.user_id,
+    history.datetime,
+    history.value,
+    history.created_at,
+    history.updated_at,
+    history.revision,
+  ]);
+  return `"${history.revision}-${fnv1a(fields)}"`;
+}
+
+// =============================================================================
+// Merging
+// =============================================================================
+
+/** A field of {@link History} that an update can change. */
+export type HistoryUpdateField = keyof HistoryCreateRequest;
+
+/**
+ * Outcome of {@link mergeHistoryUpdate}: either the update to retry with
+ * (`null` if the server already has every change), or the fields both
+ * sides changed differently.
+ */
+export type HistoryMergeResult =
+  | { merged: true; update: HistoryUpdateRequest | null }
+  | { merged: false; conflicts: HistoryUpdateField[] };
+
+const UPDATE_FIELDS: readonly HistoryUpdateField[] = ['datetime', 'value'];
+
+function sameField(
+  field: HistoryUpdateField,
+  a: string | number,
+  b: string | number
+): boolean {
+  if (field !== 'datetime') {
+    return Object.is(a, b);
+  }
+  const x = parseISODateString(a as string, { mode: 'lenient' });
+  const y = parseISODateString(b as string, { mode: 'lenient' });
+  return x.valid && y.valid ? x.value.getTime() === y.value.getTime() : a === b;
+}
+
+/**
+ * Three-way merges a local update with changes made on the server since.
+ *
+ * For each field in `update`: if the server already holds the same value,
+ * the field is dropped; if the server left it as in `base`, the local
+ * change is kept; otherwise both sides changed it and it is a conflict.
+ * Fields only the server changed are kept as they are. A merged update
+ * expects `current.revision`, so it fails again if the record moves on.
+ *
+ * @param base - The record the local update was made against
+ * @param update - The local update
+ * @param current - The record as now stored, e.g. from a conflict response
+ * @returns The update to retry with, or the conflicting fields
+ *
+ * @example
+ * ```typescript
+ * if (isHistoryConflictResponse(response)) {
+ *   const merge = mergeHistoryUpdate(base, update, response.details.current);
+ *   if (merge.merged && merge.update) {
+ *     await api.updateHistory(base.id, merge.update);
+ *   } else if (!merge.merged) {
+ *     showConflict(merge.conflicts);
+ *   }
+ * }
+ * ```
+ */
+export function mergeHistoryUpdate(
+  base: History,
+  update: HistoryUpdateRequest,
+  current: History
+): HistoryMergeResult {
+  const merged: HistoryUpdateRequest = {};
+  const conflicts: HistoryUpdateField[] = [];
+  for (const field of UPDATE_FIELDS) {
+    const local = update[field];
+    if (local === undefined || sameField(field, local, current[field])) {
+      continue;
+    }
+    if (sameField(field, base[field], current[field])) {
+      Object.assign(merged, { [field]: local });
+    } else {
+      conflicts.push(field);
+    }
+  }
+
+  if (conflicts.length > 0) {
+    return { merged: false, conflicts };
+  }
+  return {
+    merged: true,
+    update:
+      Object.keys(merged).length > 0
+        ? { ...merged, expected_revision: current.revision }
+        : null,
+  };
+}
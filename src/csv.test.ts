@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { historyToCsv, parseHistoryCsv, type HistoryId } from './index.js';
+import { makeHistory } from './test/fixtures.js';
+
+// Ids are cast rather than validated so quoting can be exercised.
+describe('historyToCsv', () => {
+  it('should write a header and the create-request columns by default', () => {
+    expect(
+      historyToCsv([makeHistory({ value: 42.5 }), makeHistory({ value: 0.1 })])
+    ).toBe(
+      'datetime,value\r\n' +
+        '2025-01-15T10:30:00.000Z,42.5\r\n' +
+        '2025-01-15T10:30:00.000Z,0.1'
+    );
+  });
+
+  it('should quote cells that need it and honor options', () => {
+    const csv = historyToCsv(
+      [makeHistory({ id: 'a;"b"' as HistoryId, value: 1 })],
+      {
+        delimiter: ';',
+        header: false,
+        columns: ['id', 'value', 'updated_at'],
+      }
+    );
+
+    expect(csv).toBe('"a;""b""";1;');
+  });
+
+  it('should reject unusable delimiters', () => {
+    expect(() => historyToCsv([], { delimiter: '"' })).toThrow(RangeError);
+    expect(() => historyToCsv([], { delimiter: '::' })).toThrow(RangeError);
+  });
+});
+
+describe('parseHistoryCsv', () => {
+  it('should round-trip an export', () => {
+    const histories = [
+      makeHistory({ value: 42.5 }),
+      makeHistory({ value: 1e-7 }),
+    ];
+
+    const result = parseHistoryCsv(
+      historyToCsv(histories, { delimiter: '\t' }),
+      { delimiter: '\t' }
+    );
+
+    expect(result).toEqual({
+      rows: [
+        {
+          row: 2,
+          request: { datetime: '2025-01-15T10:30:00.000Z', value: 42.5 },
+        },
+        {
+          row: 3,
+          request: { datetime: '2025-01-15T10:30:00.000Z', value: 1e-7 },
+        },
+      ],
+      errors: [],
+    });
+  });
+
+  it('should match headers by name and ignore extra columns', () => {
+    const csv =
+      '﻿id,Value, DateTime \n' +
+      'x,"10",2025-01-01T00:00:00Z\n' +
+      '\n' +
+      'y, 20 ,"2025-01-02T00:00:00Z"\n';
+
+    expect(parseHistoryCsv(csv).rows).toEqual([
+      { row: 2, request: { datetime: '2025-01-01T00:00:00Z', value: 10 } },
+      { row: 4, request: { datetime: '2025-01-02T00:00:00Z', value: 20 } },
+    ]);
+  });
+
+  it('should read headerless files in the default column order', () => {
+    expect(
+      parseHistoryCsv('2025-01-01T00:00:00Z;5', {
+        delimiter: ';',
+        header: false,
+      }).rows
+    ).toEqual([
+      { row: 1, request: { datetime: '2025-01-01T00:00:00Z', value: 5 } },
+    ]);
+  });
+
+  it('should report row-numbered errors and keep valid rows', () => {
+    const csv = [
+      'datetime,value',
+      'yesterday,5',
+      '2025-01-01T00:00:00Z,-1',
+      '2025-01-01T00:00:00Z,"1,5"',
+      '"multi',
+      'line",3',
+      '2025-01-01T00:00:00Z',
+      '2025-01-03T00:00:00Z,7',
+    ].join('\r\n');
+
+    const result = parseHistoryCsv(csv);
+
+    expect(result.errors.map((e) => `${e.row}:${e.field}:${e.code}`)).toEqual([
+      '2:datetime:invalid_date',
+      '3:value:not_positive',
+      '4:value:invalid_type',
+      '5:datetime:invalid_date',
+      '7:value:missing',
+    ]);
+    expect(result.rows).toEqual([
+      { row: 8, request: { datetime: '2025-01-03T00:00:00Z', value: 7 } },
+    ]);
+  });
+
+  it('should report missing header columns and unterminated quotes', () => {
+    expect(parseHistoryCsv('date,value\n2025-01-01T00:00:00Z,1')).toEqual({
+      rows: [],
+      errors: [
+        {
+          row: 1,
+          field: 'datetime',
+          code: 'missing',
+          message: 'header must include a datetime column',
+        },
+      ],
+    });
+    expect(
+      parseHistoryCsv('datetime,value\n"2025-01-01,1').errors
+    ).toMatchObject([{ row: 2, code: 'invalid_body' }]);
+  });
+});
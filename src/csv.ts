@@ -0,0 +1,304 @@
+import type { History, HistoryCreateRequest } from './types.js';
+import { validateHistoryCreateRequest, type FieldError } from './validation.js';
+
+// =============================================================================
+// CSV Types
+// =============================================================================
+
+/** Options for {@link historyToCsv}. */
+export interface HistoryCsvExportOptions {
+  /** Field separator, a single character. Defaults to `,`. */
+  delimiter?: string;
+  /** Whether to write a header row. Defaults to `true`. */
+  header?: boolean;
+  /** Columns to write, in order. Defaults to {@link HISTORY_CSV_COLUMNS}. */
+  columns?: readonly (keyof History)[];
+}
+
+/** Options for {@link parseHistoryCsv}. */
+export interface HistoryCsvParseOptions {
+  /** Field separator, a single character. Defaults to `,`. */
+  delimiter?: string;
+  /**
+   * Whether the first row names the columns. Defaults to `true`. Without a
+   * header the columns are {@link HISTORY_CSV_COLUMNS}, in that order.
+   */
+  header?: boolean;
+}
+
+/** A parsed CSV record and the line it starts on. */
+export interface HistoryCsvRow {
+  /** 1-based line number; the header, if any, is line 1 */
+  row: number;
+  request: HistoryCreateRequest;
+}
+
+/** A field error located at a CSV line. */
+export interface HistoryCsvError extends FieldError {
+  /** 1-based line number of the offending record */
+  row: number;
+}
+
+/**
+ * Outcome of parsing a CSV file. Valid records and errors are both
+ * returned, so an import preview can show good rows next to bad ones.
+ */
+export interface HistoryCsvParseResult {
+  rows: HistoryCsvRow[];
+  errors: HistoryCsvError[];
+}
+
+/** Default CSV columns: exactly the fields of a `HistoryCreateRequest`. */
+export const HISTORY_CSV_COLUMNS: readonly (keyof History)[] = [
+  'datetime',
+  'value',
+];
+
+// Plain decimal notation only, so `1,5` or `1 000` are rejected rather than
+// silently misread under another locale's conventions.
+const NUMBER_PATTERN = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+
+function checkDelimiter(delimiter: string): void {
+  if (delimiter.length !== 1 || /["\r\n]/.test(delimiter)) {
+    throw new RangeError(
+      'delimiter must be a single character other than a quote or line break'
+    );
+  }
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+function formatCell(value: unknown, delimiter: string): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return text.includes(delimiter) ||
+    /["\r\n]/.test(text) ||
+    text !== text.trim()
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
+
+/**
+ * Serializes history records to CSV (RFC 4180).
+ *
+ * Cells containing the delimiter, quotes, line breaks or surrounding spaces
+ * are quoted with embedded quotes doubled. Numbers are written in
+ * locale-independent JavaScript notation, `null` as an empty cell, and
+ * records are separated by CRLF.
+ *
+ * @param histories - The records to export
+ * @param options - Delimiter, header and column selection
+ * @returns The CSV text, without a trailing line break
+ * @throws {RangeError} If the delimiter is not a single safe character
+ *
+ * @example
+ * ```typescript
+ * historyToCsv(histories, { delimiter: ';' });
+ * // 'datetime;value\r\n2025-01-15T10:30:00.000Z;42.5'
+ * ```
+ */
+export function historyToCsv(
+  histories: readonly History[],
+  options: HistoryCsvExportOptions = {}
+): string {
+  const {
+    delimiter = ',',
+    header = true,
+    columns = HISTORY_CSV_COLUMNS,
+  } = options;
+  checkDelimiter(delimiter);
+
+  const lines = histories.map((history) =>
+    columns
+      .map((column) => formatCell(history[column], delimiter))
+      .join(delimiter)
+  );
+  if (header) {
+    lines.unshift(columns.join(delimiter));
+  }
+  return lines.join('\r\n');
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+interface CsvRecord {
+  line: number;
+  cells: string[];
+}
+
+/**
+ * Splits CSV text into records, honoring quoted cells that span lines.
+ * Returns the line of an unterminated quote instead of records on failure.
+ */
+function tokenize(
+  text: string,
+  delimiter: string
+): { records: CsvRecord[] } | { unterminated: number } {
+  const records: CsvRecord[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0].trim() !== '') {
+      records.push({ line: recordLine, cells });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      quoted = true;
+      cell = '';
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    return { unterminated: recordLine };
+  }
+  endRecord();
+  return { records };
+}
+
+/**
+ * Parses CSV text into history create requests.
+ *
+ * Columns are matched to header names case-insensitively; extra columns
+ * (such as `id` from a full export) are ignored. Each record is checked with
+ * `validateHistoryCreateRequest`, and `value` must be written in plain
+ * decimal notation. Blank lines are skipped and a leading byte order mark
+ * is ignored.
+ *
+ * @param text - The CSV file contents
+ * @param options - Delimiter and header handling
+ * @returns Valid rows and row-numbered field errors
+ * @throws {RangeError} If the delimiter is not a single safe character
+ *
+ * @example
+ * ```typescript
+ * const { rows, errors } = parseHistoryCsv(await file.text());
+ * if (errors.length === 0) {
+ *   await api.batchHistory({
+ *     operations: rows.map(({ row, request }) => ({
+ *       op: 'create',
+ *       client_id: `row-${row}`,
+ *       body: request,
+ *     })),
+ *   });
+ * }
+ * ```
+ */
+export function parseHistoryCsv(
+  text: string,
+  options: HistoryCsvParseOptions = {}
+): HistoryCsvParseResult {
+  const { delimiter = ',', header = true } = options;
+  checkDelimiter(delimiter);
+
+  const result: HistoryCsvParseResult = { rows: [], errors: [] };
+  const tokens = tokenize(text, delimiter);
+  if ('unterminated' in tokens) {
+    result.errors.push({
+      row: tokens.unterminated,
+      field: '',
+      code: 'invalid_body',
+      message: 'quoted cell is not terminated',
+    });
+    return result;
+  }
+
+  const { records } = tokens;
+  let datetimeIndex = 0;
+  let valueIndex = 1;
+  if (header) {
+    const names = (records.shift()?.cells ?? []).map((name) =>
+      name.trim().toLowerCase()
+    );
+    datetimeIndex = names.indexOf('datetime');
+    valueIndex = names.indexOf('value');
+    for (const [field, index] of [
+      ['datetime', datetimeIndex],
+      ['value', valueIndex],
+    ] as const) {
+      if (index === -1) {
+        result.errors.push({
+          row: 1,
+          field,
+          code: 'missing',
+          message: `header must include a ${field} column`,
+        });
+      }
+    }
+    if (result.errors.length > 0) {
+      return result;
+    }
+  }
+
+  for (const { line, cells } of records) {
+    const datetime = cells[datetimeIndex]?.trim();
+    const rawValue = cells[valueIndex]?.trim();
+    const rowErrors: FieldError[] = [];
+
+    let value: number | undefined;
+    if (rawValue !== undefined && rawValue !== '') {
+      if (NUMBER_PATTERN.test(rawValue)) {
+        value = Number(rawValue);
+      } else {
+        rowErrors.push({
+          field: 'value',
+          code: 'invalid_type',
+          message: 'value must be a number in plain decimal notation',
+        });
+      }
+    }
+
+    const validation = validateHistoryCreateRequest({
+      ...(datetime !== undefined && datetime !== '' && { datetime }),
+      ...(value !== undefined && { value }),
+    });
+    if (!validation.valid) {
+      rowErrors.push(
+        ...validation.errors.filter(
+          (error) => !rowErrors.some((e) => e.field === error.field)
+        )
+      );
+    }
+
+    if (rowErrors.length > 0 || !validation.valid) {
+      result.errors.push(
+        ...rowErrors.map((error) => ({ row: line, ...error }))
+      );
+    } else {
+      result.rows.push({ row: line, request: validation.value });
+    }
+  }
+  return result;
+}
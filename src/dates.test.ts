@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isISODateString,
+  parseISODateString,
+  toHistoryId,
+  toISODateString,
+  toUserId,
+  successResponse,
+  type History,
+  type ISODateString,
+} from './index.js';
+
+describe('parseISODateString', () => {
+  it('should parse the canonical form in strict mode', () => {
+    const result = parseISODateString('2025-01-15T10:30:00.000Z');
+
+    expect(result.valid).toBe(true);
+    if (result.valid) {
+      expect(result.value.getTime()).toBe(Date.UTC(2025, 0, 15, 10, 30));
+    }
+  });
+
+  it('should reject offsets and missing milliseconds in strict mode', () => {
+    for (const input of [
+      '2025-01-15T10:30:00Z',
+      '2025-01-15T10:30:00.000+00:00',
+      '2025-01-15T10:30Z',
+    ]) {
+      expect(parseISODateString(input).valid).toBe(false);
+    }
+  });
+
+  it('should apply offsets in lenient mode', () => {
+    const result = parseISODateString('2025-01-15T12:30:00+02:00', {
+      mode: 'lenient',
+    });
+
+    expect(result.valid && result.value.toISOString()).toBe(
+      '2025-01-15T10:30:00.000Z'
+    );
+  });
+
+  it('should accept missing seconds and long fractions in lenient mode', () => {
+    const noSeconds = parseISODateString('2025-01-15T10:30-05:00', {
+      mode: 'lenient',
+    });
+    const micros = parseISODateString('2025-01-15T10:30:00.123456Z', {
+      mode: 'lenient',
+    });
+
+    expect(noSeconds.valid && noSeconds.value.toISOString()).toBe(
+      '2025-01-15T15:30:00.000Z'
+    );
+    expect(micros.valid && micros.value.toISOString()).toBe(
+      '2025-01-15T10:30:00.123Z'
+    );
+  });
+
+  it('should reject impossible calendar dates instead of rolling over', () => {
+    expect(parseISODateString('2025-02-29T00:00:00.000Z').valid).toBe(false);
+    expect(parseISODateString('2024-02-29T00:00:00.000Z').valid).toBe(true);
+    expect(parseISODateString('2025-04-31T00:00:00.000Z').valid).toBe(false);
+    expect(parseISODateString('2025-00-10T00:00:00.000Z').valid).toBe(false);
+  });
+
+  it('should reject out-of-range times and offsets', () => {
+    expect(parseISODateString('2025-01-15T24:00:00.000Z').valid).toBe(false);
+    expect(parseISODateString('2025-01-15T10:60:00.000Z').valid).toBe(false);
+    expect(
+      parseISODateString('2025-01-15T10:00:00+24:00', { mode: 'lenient' }).valid
+    ).toBe(false);
+  });
+
+  it('should handle years before 100 correctly', () => {
+    const result = parseISODateString('0050-06-01T00:00:00.000Z');
+
+    expect(result.valid && result.value.getUTCFullYear()).toBe(50);
+  });
+
+  it('should return an error message for garbage input', () => {
+    const result = parseISODateString('yesterday');
+
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.error).toMatch(/ISO 8601/);
+    }
+  });
+});
+
+describe('isISODateString', () => {
+  it('should narrow strings in the requested mode', () => {
+    expect(isISODateString('2025-01-15T10:30:00.000Z')).toBe(true);
+    expect(isISODateString('2025-01-15T10:30:00Z')).toBe(false);
+    expect(isISODateString('2025-01-15T10:30:00Z', { mode: 'lenient' })).toBe(
+      true
+    );
+  });
+
+  it('should return false for non-strings', () => {
+    expect(isISODateString(undefined)).toBe(false);
+    expect(isISODateString(1736937000000)).toBe(false);
+    expect(isISODateString(new Date())).toBe(false);
+  });
+});
+
+describe('toISODateString', () => {
+  it('should convert a Date', () => {
+    expect(toISODateString(new Date(0))).toBe('1970-01-01T00:00:00.000Z');
+  });
+
+  it('should convert epoch milliseconds', () => {
+    expect(toISODateString(Date.UTC(2025, 0, 15, 10, 30))).toBe(
+      '2025-01-15T10:30:00.000Z'
+    );
+  });
+
+  it('should normalize lenient strings to canonical UTC', () => {
+    expect(toISODateString('2025-01-15T12:30+02:00')).toBe(
+      '2025-01-15T10:30:00.000Z'
+    );
+  });
+
+  it('should throw RangeError for invalid input', () => {
+    expect(() => toISODateString(NaN)).toThrow(RangeError);
+    expect(() => toISODateString(new Date('nope'))).toThrow(RangeError);
+    expect(() => toISODateString('2025-02-30T00:00:00Z')).toThrow(RangeError);
+  });
+
+  it('should produce values accepted by the strict guard', () => {
+    const value: ISODateString = toISODateString(new Date());
+
+    expect(isISODateString(value)).toBe(true);
+  });
+
+  it('should be usable for branded domain fields', () => {
+    const history: History = {
+      id: toHistoryId('3f2b8c1e-9d4a-4f6b-8e2c-7a1d5b9c0e4f'),
+      user_id: toUserId('uid123'),
+      datetime: toISODateString('2025-01-15T10:30:00.000Z'),
+      value: 42.5,
+      created_at: toISODateString(new Date()),
+      updated_at: null,
+      revision: 1,
+    };
+
+    expect(history.datetime).toBe('2025-01-15T10:30:00.000Z');
+  });
+});
+
+describe('successResponse timestamp', () => {
+  it('should be a strict ISODateString', () => {
+    const response = successResponse('ok');
+    const timestamp: ISODateString = response.timestamp;
+
+    expect(isISODateString(timestamp)).toBe(true);
+  });
+});
@@ -0,0 +1,191 @@
+import type { ISODateString } from './types.js';
+
+// =============================================================================
+// Parse Options
+// =============================================================================
+
+/**
+ * How strictly an ISO 8601 datetime string is checked.
+ *
+ * - `strict` - only the canonical UTC form produced by
+ *   `Date.prototype.toISOString()`: `YYYY-MM-DDTHH:mm:ss.sssZ`
+ * - `lenient` - additionally accepts `+HH:MM` / `-HH:MM` offsets, missing
+ *   seconds, missing milliseconds, and any number of fractional digits
+ */
+export type ISODateParseMode = 'strict' | 'lenient';
+
+/**
+ * Options accepted by the ISO date guards and parsers.
+ */
+export interface ISODateOptions {
+  /** Parsing strictness, defaults to `'strict'` */
+  mode?: ISODateParseMode;
+}
+
+/**
+ * Outcome of {@link parseISODateString}: either the parsed `Date`, or a
+ * human-readable reason the input was rejected.
+ */
+export type ISODateParseResult =
+  { valid: true; value: Date } | { valid: false; error: string };
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+const STRICT_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})\.(\d{3})(Z)$/;
+
+const LENIENT_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?(Z|[+-]\d{2}:\d{2})$/;
+
+function daysInMonth(year: number, month: number): number {
+  const date = new Date(0);
+  date.setUTCFullYear(year, month, 0);
+  return date.getUTCDate();
+}
+
+/**
+ * Parses an ISO 8601 datetime string into a `Date`.
+ *
+ * Unlike `Date.parse`, calendar components are range-checked, so impossible
+ * dates such as `2025-02-30T00:00:00.000Z` are rejected instead of silently
+ * rolling over into the next month.
+ *
+ * @param input - The string to parse
+ * @param options - Parsing strictness, defaults to `strict`
+ * @returns The parsed `Date`, or the reason the input was rejected
+ *
+ * @example
+ * ```typescript
+ * parseISODateString('2025-01-15T10:30:00.000Z');
+ * // { valid: true, value: Date(2025-01-15T10:30:00.000Z) }
+ *
+ * parseISODateString('2025-01-15T12:30:00+02:00', { mode: 'lenient' });
+ * // { valid: true, value: Date(2025-01-15T10:30:00.000Z) }
+ *
+ * parseISODateString('2025-01-15');
+ * // { valid: false, error: 'expected an ISO 8601 datetime ...' }
+ * ```
+ */
+export function parseISODateString(
+  input: string,
+  options: ISODateOptions = {}
+): ISODateParseResult {
+  const mode = options.mode ?? 'strict';
+  const match = (mode === 'strict' ? STRICT_PATTERN : LENIENT_PATTERN).exec(
+    input
+  );
+  if (!match) {
+    return {
+      valid: false,
+      error:
+        mode === 'strict'
+          ? 'expected an ISO 8601 datetime in the form YYYY-MM-DDTHH:mm:ss.sssZ'
+          : 'expected an ISO 8601 datetime with a Z or ±HH:MM offset',
+    };
+  }
+
+  const [, year, month, day, hour, minute, second = '0', fraction = '', zone] =
+    match;
+  const y = Number(year);
+  const mo = Number(month);
+  const d = Number(day);
+  if (mo < 1 || mo > 12 || d < 1 || d > daysInMonth(y, mo)) {
+    return {
+      valid: false,
+      error: `${year}-${month}-${day} is not a real date`,
+    };
+  }
+  if (Number(hour) > 23 || Number(minute) > 59 || Number(second) > 59) {
+    return { valid: false, error: 'time of day is out of range' };
+  }
+
+  let offsetMinutes = 0;
+  if (zone !== 'Z') {
+    const offsetHours = Number(zone.slice(1, 3));
+    const offsetMins = Number(zone.slice(4, 6));
+    if (offsetHours > 23 || offsetMins > 59) {
+      return { valid: false, error: 'timezone offset is out of range' };
+    }
+    offsetMinutes =
+      (zone[0] === '-' ? -1 : 1) * (offsetHours * 60 + offsetMins);
+  }
+
+  // Date.UTC maps years 0-99 to 1900-1999, so set the full year explicitly.
+  const date = new Date(0);
+  date.setUTCFullYear(y, mo - 1, d);
+  date.setUTCHours(
+    Number(hour),
+    Number(minute) - offsetMinutes,
+    Number(second),
+    Number(fraction.padEnd(3, '0').slice(0, 3))
+  );
+  if (Number.isNaN(date.getTime())) {
+    return {
+      valid: false,
+      error: 'datetime is outside the representable range',
+    };
+  }
+  return { valid: true, value: date };
+}
+
+// =============================================================================
+// Guards and Constructors
+// =============================================================================
+
+/**
+ * Type guard for {@link ISODateString}.
+ *
+ * @param value - The value to check
+ * @param options - Parsing strictness, defaults to `strict`
+ * @returns `true` if `value` is a string that parses under the given mode
+ *
+ * @example
+ * ```typescript
+ * if (isISODateString(body.datetime)) {
+ *   history.datetime = body.datetime; // narrowed to ISODateString
+ * }
+ * ```
+ */
+export function isISODateString(
+  value: unknown,
+  options: ISODateOptions = {}
+): value is ISODateString {
+  return typeof value === 'string' && parseISODateString(value, options).valid;
+}
+
+/**
+ * Converts a `Date`, epoch milliseconds or datetime string into the canonical
+ * {@link ISODateString} form (`YYYY-MM-DDTHH:mm:ss.sssZ`, always UTC).
+ *
+ * Strings are parsed leniently, so offsets and missing milliseconds are
+ * accepted and normalized.
+ *
+ * @param input - The instant to convert
+ * @returns The canonical ISO 8601 representation
+ * @throws {RangeError} If the input does not describe a valid instant
+ *
+ * @example
+ * ```typescript
+ * toISODateString(new Date(0)); // '1970-01-01T00:00:00.000Z'
+ * toISODateString(1736937000000); // '2025-01-15T10:30:00.000Z'
+ * toISODateString('2025-01-15T12:30+02:00'); // '2025-01-15T10:30:00.000Z'
+ * ```
+ */
+export function toISODateString(input: Date | number | string): ISODateString {
+  let date: Date;
+  if (typeof input === 'string') {
+    const result = parseISODateString(input, { mode: 'lenient' });
+    if (!result.valid) {
+      throw new RangeError(`Invalid ISO 8601 datetime: ${result.error}`);
+    }
+    date = result.value;
+  } else {
+    date = new Date(input instanceof Date ? input.getTime() : input);
+  }
+  if (Number.isNaN(date.getTime())) {
+    throw new RangeError('Invalid date');
+  }
+  return date.toISOString() as ISODateString;
+}
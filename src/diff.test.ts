@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyHistoryUpdate,
+  diffHistory,
+  toHistoryId,
+  toISODateString,
+  toUserId,
+  type History,
+} from './index.js';
+
+const history: History = {
+  id: toHistoryId('3f2b8c1e-9d4a-4f6b-8e2c-7a1d5b9c0e4f'),
+  user_id: toUserId('uid123'),
+  datetime: toISODateString('2025-01-15T10:30:00.000Z'),
+  value: 42.5,
+  created_at: toISODateString('2025-01-15T10:31:00.000Z'),
+  updated_at: null,
+  revision: 1,
+};
+
+describe('diffHistory', () => {
+  it('should return null when nothing changed', () => {
+    expect(diffHistory(history, history)).toBeNull();
+    expect(
+      diffHistory(history, {
+        datetime: '2025-01-15T12:30:00+02:00',
+        value: 42.5,
+      })
+    ).toBeNull();
+  });
+
+  it('should include only the changed fields', () => {
+    expect(
+      diffHistory(history, { datetime: history.datetime, value: 50 })
+    ).toEqual({ value: 50 });
+    expect(
+      diffHistory(history, { datetime: '2025-01-16T10:30Z', value: 42.5 })
+    ).toEqual({ datetime: '2025-01-16T10:30:00.000Z' });
+  });
+
+  it('should pass unparseable datetimes through for validation', () => {
+    expect(diffHistory(history, { datetime: 'tomorrow', value: 42.5 })).toEqual(
+      { datetime: 'tomorrow' }
+    );
+  });
+});
+
+describe('applyHistoryUpdate', () => {
+  const now = new Date('2025-02-01T00:00:00.000Z');
+
+  it('should apply provided fields and bump updated_at', () => {
+    const updated = applyHistoryUpdate(
+      history,
+      { datetime: '2025-01-16T12:00:00+01:00', value: 7 },
+      now
+    );
+
+    expect(updated).toEqual({
+      ...history,
+      datetime: '2025-01-16T11:00:00.000Z',
+      value: 7,
+      updated_at: '2025-02-01T00:00:00.000Z',
+      revision: 2,
+    });
+    expect(history.value).toBe(42.5);
+  });
+
+  it('should round-trip a diff', () => {
+    const edited = { datetime: history.datetime, value: 99 };
+    const update = diffHistory(history, edited);
+
+    expect(update).not.toBeNull();
+    expect(applyHistoryUpdate(history, update!, now)).toMatchObject(edited);
+  });
+
+  it('should reject invalid datetimes', () => {
+    expect(() =>
+      applyHistoryUpdate(history, { datetime: 'tomorrow' }, now)
+    ).toThrow(RangeError);
+  });
+});
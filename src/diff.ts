@@ -0,0 +1,91 @@
+import { parseISODateString, toISODateString } from './dates.js';
+import type {
+  History,
+  HistoryCreateRequest,
+  HistoryUpdateRequest,
+} from './types.js';
+
+// =============================================================================
+// Diffing
+// =============================================================================
+
+/**
+ * Computes the smallest update that turns a record into its edited form.
+ *
+ * Datetimes are compared as instants, so `2025-01-15T12:30:00+02:00` equals
+ * a stored `2025-01-15T10:30:00.000Z`. A changed datetime is sent in the
+ * canonical form; one that does not parse is sent as entered, so that
+ * validation reports it.
+ *
+ * @param original - The record as loaded
+ * @param edited - The edited fields, e.g. an edit form's values
+ * @returns The fields that changed, or `null` if nothing did
+ *
+ * @example
+ * ```typescript
+ * const update = diffHistory(history, form.values);
+ * if (update) {
+ *   await api.updateHistory(history.id, update);
+ * }
+ * ```
+ */
+export function diffHistory(
+  original: History,
+  edited: HistoryCreateRequest
+): HistoryUpdateRequest | null {
+  const update: HistoryUpdateRequest = {};
+  const datetime = parseISODateString(edited.datetime, { mode: 'lenient' });
+  if (!datetime.valid) {
+    update.datetime = edited.datetime;
+  } else if (datetime.value.getTime() !== Date.parse(original.datetime)) {
+    update.datetime = datetime.value.toISOString();
+  }
+  if (!Object.is(original.value, edited.value)) {
+    update.value = edited.value;
+  }
+  return Object.keys(update).length > 0 ? update : null;
+}
+
+// =============================================================================
+// Applying
+// =============================================================================
+
+/**
+ * Applies an update to a record the way the server persists it: provided
+ * fields replace the stored ones, the datetime is normalized to the
+ * canonical form, `updated_at` is set to `now` and `revision` is
+ * incremented. `expected_revision` is not checked here.
+ *
+ * Useful for optimistic UI updates. The update is expected to have passed
+ * `validateHistoryUpdateRequest`.
+ *
+ * @param history - The stored record
+ * @param update - The update to apply
+ * @param now - The time of the update. Defaults to the current time.
+ * @returns A new record; the input is not modified
+ * @throws {RangeError} If `update.datetime` or `now` is not a valid instant
+ *
+ * @example
+ * ```typescript
+ * setHistory(applyHistoryUpdate(history, update));
+ * const response = await api.updateHistory(history.id, update);
+ * ```
+ */
+export function applyHistoryUpdate(
+  history: History,
+  update: HistoryUpdateRequest,
+  now: Date | number | string = new Date()
+): History {
+  const updated: History = {
+    ...history,
+    updated_at: toISODateString(now),
+    revision: history.revision + 1,
+  };
+  if (update.datetime !== undefined) {
+    updated.datetime = toISODateString(update.datetime);
+  }
+  if (update.value !== undefined) {
+    updated.value = update.value;
+  }
+  return updated;
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  errorResponse,
+  successResponse,
+  isErrorResponse,
+  isStructuredErrorResponse,
+  ERROR_CODES,
+  ERROR_CODE_HTTP_STATUS,
+  type BaseResponse,
+  type History,
+  type StructuredErrorResponse,
+} from './index.js';
+
+describe('errorResponse with options', () => {
+  it('should include the error code', () => {
+    const response = errorResponse('User not found', { code: 'NOT_FOUND' });
+
+    expect(response.success).toBe(false);
+    expect(response.error).toBe('User not found');
+    expect(response.code).toBe('NOT_FOUND');
+    expect(Object.keys(response).sort()).toEqual([
+      'code',
+      'error',
+      'success',
+      'timestamp',
+    ]);
+  });
+
+  it('should include details and field errors when provided', () => {
+    const response = errorResponse('Validation failed', {
+      code: 'VALIDATION_FAILED',
+      details: { attempt: 2 },
+      fieldErrors: [
+        {
+          field: 'value',
+          code: 'not_positive',
+          message: 'value must be greater than 0',
+        },
+      ],
+    });
+
+    expect(response.details).toEqual({ attempt: 2 });
+    expect(response.fieldErrors).toHaveLength(1);
+    expect(response.fieldErrors![0].field).toBe('value');
+  });
+
+  it('should remain assignable to BaseResponse<never>', () => {
+    const response: BaseResponse<never> = errorResponse('Forbidden', {
+      code: 'FORBIDDEN',
+    });
+
+    expect(isErrorResponse(response)).toBe(true);
+  });
+
+  it('should leave the plain overload unchanged', () => {
+    const response = errorResponse('plain');
+
+    expect(response).not.toHaveProperty('code');
+  });
+});
+
+describe('isStructuredErrorResponse', () => {
+  it('should return true for any known code when no codes are given', () => {
+    const response = errorResponse('Slow down', { code: 'RATE_LIMITED' });
+
+    expect(isStructuredErrorResponse(response)).toBe(true);
+  });
+
+  it('should return false for plain error responses', () => {
+    expect(isStructuredErrorResponse(errorResponse('plain'))).toBe(false);
+  });
+
+  it('should return false for success responses', () => {
+    expect(
+      isStructuredErrorResponse(successResponse({ code: 'INTERNAL' }))
+    ).toBe(false);
+  });
+
+  it('should return false for unknown codes', () => {
+    const response = {
+      success: false,
+      error: 'odd',
+      code: 'TEAPOT',
+      timestamp: '2025-01-15T10:30:00.000Z',
+    } as BaseResponse<unknown>;
+
+    expect(isStructuredErrorResponse(response)).toBe(false);
+  });
+
+  it('should match only the requested codes', () => {
+    const response: BaseResponse<History> = errorResponse('Gone', {
+      code: 'NOT_FOUND',
+    });
+
+    expect(isStructuredErrorResponse(response, 'NOT_FOUND')).toBe(true);
+    expect(isStructuredErrorResponse(response, 'CONFLICT', 'NOT_FOUND')).toBe(
+      true
+    );
+    expect(isStructuredErrorResponse(response, 'CONFLICT')).toBe(false);
+  });
+
+  it('should narrow the code type', () => {
+    const response: BaseResponse<History> = errorResponse('Gone', {
+      code: 'NOT_FOUND',
+    });
+
+    if (isStructuredErrorResponse(response, 'NOT_FOUND')) {
+      const narrowed: StructuredErrorResponse<'NOT_FOUND'> = response;
+      expect(narrowed.code).toBe('NOT_FOUND');
+    } else {
+      expect.fail('Expected NOT_FOUND error');
+    }
+  });
+});
+
+describe('ERROR_CODE_HTTP_STATUS', () => {
+  it('should map every error code to an HTTP error status', () => {
+    for (const code of ERROR_CODES) {
+      expect(ERROR_CODE_HTTP_STATUS[code]).toBeGreaterThanOrEqual(400);
+    }
+    expect(ERROR_CODES).toHaveLength(9);
+  });
+});
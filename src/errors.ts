@@ -0,0 +1,165 @@
+import type { BaseResponse } from '@sudobility/types';
+import type { ResponseMeta } from './meta.js';
+import type { FieldError } from './validation.js';
+
+// =============================================================================
+// Error Codes
+// =============================================================================
+
+/**
+ * Stable, machine-readable error category carried by structured error
+ * responses. Clients should branch on this instead of on the `error` message,
+ * which is free text and may change.
+ *
+ * - `BAD_REQUEST` - the request is malformed (e.g. unparseable JSON)
+ * - `VALIDATION_FAILED` - the request body failed field validation
+ * - `UNAUTHORIZED` - no valid credentials were supplied
+ * - `FORBIDDEN` - the caller is authenticated but not allowed to do this
+ * - `NOT_FOUND` - the addressed resource does not exist
+ * - `CONFLICT` - the request conflicts with the current server state
+ * - `RATE_LIMITED` - the caller has sent too many requests
+ * - `INTERNAL` - an unexpected server-side failure
+ * - `UNAVAILABLE` - the API could not be reached or sent an unusable response
+ */
+export type ErrorCode =
+  | 'BAD_REQUEST'
+  | 'VALIDATION_FAILED'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'RATE_LIMITED'
+  | 'INTERNAL'
+  | 'UNAVAILABLE';
+
+/**
+ * HTTP status code conventionally returned alongside each {@link ErrorCode}.
+ *
+ * @example
+ * ```typescript
+ * return c.json(response, ERROR_CODE_HTTP_STATUS[response.code]);
+ * ```
+ */
+export const ERROR_CODE_HTTP_STATUS: Readonly<Record<ErrorCode, number>> = {
+  BAD_REQUEST: 400,
+  VALIDATION_FAILED: 422,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  RATE_LIMITED: 429,
+  INTERNAL: 500,
+  UNAVAILABLE: 503,
+};
+
+/** Every known {@link ErrorCode}, useful for runtime membership checks. */
+export const ERROR_CODES = Object.keys(
+  ERROR_CODE_HTTP_STATUS
+) as readonly ErrorCode[];
+
+// =============================================================================
+// Structured Error Envelope
+// =============================================================================
+
+/**
+ * Options for building a structured error response with {@link errorResponse}.
+ *
+ * @typeParam C - The error code literal
+ */
+export interface ErrorResponseOptions<C extends ErrorCode = ErrorCode> {
+  /** Machine-readable error category */
+  code: C;
+  /** Arbitrary additional context, e.g. the id that was not found */
+  details?: Record<string, unknown>;
+  /** Per-field validation failures, typically with `VALIDATION_FAILED` */
+  fieldErrors?: FieldError[];
+}
+
+/**
+ * Error response envelope with a stable error code.
+ *
+ * Structurally a `BaseResponse<never>` with `success: false`, so existing
+ * consumers that only read `success`/`error` keep working, while newer
+ * clients can branch on `code` and render `fieldErrors` next to form inputs.
+ *
+ * @typeParam C - The error code literal
+ *
+ * @example
+ * ```typescript
+ * const response: StructuredErrorResponse<'NOT_FOUND'> = {
+ *   success: false,
+ *   error: 'History not found',
+ *   code: 'NOT_FOUND',
+ *   details: { id: toHistoryId('3f2b8c1e-9d4a-4f6b-8e2c-7a1d5b9c0e4f') },
+ *   timestamp: '2025-01-15T10:30:00.000Z',
+ * };
+ * ```
+ */
+export interface StructuredErrorResponse<
+  C extends ErrorCode = ErrorCode,
+> extends BaseResponse<never> {
+  success: false;
+  /** Human-readable error message */
+  error: string;
+  /** Machine-readable error category */
+  code: C;
+  /** Arbitrary additional context */
+  details?: Record<string, unknown>;
+  /** Per-field validation failures */
+  fieldErrors?: FieldError[];
+  /** Optional diagnostics, see `getResponseMeta` */
+  meta?: ResponseMeta;
+}
+
+// =============================================================================
+// Thrown Errors
+// =============================================================================
+
+/**
+ * An error response raised as an exception, e.g. by `unwrapResponse`.
+ *
+ * Carries the error envelope it was built from, so `code`, `details` and
+ * `fieldErrors` survive the throw and can be turned back into a response.
+ * `code` is `undefined` for plain (unstructured) error responses.
+ *
+ * @typeParam C - The error code literal
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   const history = unwrapResponse(await api.getHistory(id));
+ * } catch (error) {
+ *   if (error instanceof StarterApiError && error.code === 'NOT_FOUND') {
+ *     return null;
+ *   }
+ *   throw error;
+ * }
+ * ```
+ */
+export class StarterApiError<C extends ErrorCode = ErrorCode> extends Error {
+  /** Machine-readable error category, if the response had one */
+  readonly code: C | undefined;
+  /** Additional context from the response */
+  readonly details: Record<string, unknown> | undefined;
+  /** Per-field validation failures from the response */
+  readonly fieldErrors: FieldError[] | undefined;
+  /** The error envelope this error was built from */
+  readonly response: BaseResponse<never>;
+
+  /**
+   * @param response - An error envelope (`success: false`)
+   */
+  constructor(response: BaseResponse<never> | StructuredErrorResponse<C>) {
+    super(response.error ?? 'Unknown error');
+    this.name = 'StarterApiError';
+    const structured = response as Partial<StructuredErrorResponse<C>>;
+    this.code =
+      typeof structured.code === 'string' &&
+      ERROR_CODES.includes(structured.code)
+        ? structured.code
+        : undefined;
+    this.details = structured.details;
+    this.fieldErrors = structured.fieldErrors;
+    this.response = response;
+  }
+}
@@ -0,0 +1,400 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createFakeStarterApi,
+  DEFAULT_PAGE_LIMIT,
+  StarterApiClient,
+  isStructuredErrorResponse,
+  isHistoryConflictResponse,
+  isSuccessResponse,
+  mergeHistoryUpdate,
+  partitionBatchItems,
+  toISODateString,
+  toUserId,
+  type History,
+  type User,
+} from './index.js';
+import { makeHistory, testHistoryId } from './test/fixtures.js';
+
+const uid = toUserId('uid123');
+const hist1 = testHistoryId(1);
+const hist2 = testHistoryId(2);
+const hist3 = testHistoryId(3);
+const histNew = testHistoryId('f');
+
+const user: User = {
+  firebase_uid: uid,
+  email: 'user@example.com',
+  display_name: 'John Doe',
+  created_at: toISODateString('2025-01-01T00:00:00.000Z'),
+  updated_at: null,
+};
+
+function setup(token: string | null = 'uid123') {
+  const fake = createFakeStarterApi({
+    users: [user],
+    histories: [
+      makeHistory({ id: hist1, datetime: Date.UTC(2025, 0, 1), value: 10 }),
+      makeHistory({ id: hist2, datetime: Date.UTC(2025, 0, 2), value: 20.5 }),
+      makeHistory({
+        id: hist3,
+        user_id: toUserId('other-uid'),
+        datetime: Date.UTC(2025, 0, 3),
+        value: 99,
+      }),
+    ],
+    now: () => new Date('2025-02-01T00:00:00.000Z'),
+    generateId: () => histNew,
+    basePath: '/v1',
+  });
+  const api = new StarterApiClient(fake, {
+    baseUrl: 'https://fake.local/v1',
+    getAuthToken: () => token,
+  });
+  return { fake, api };
+}
+
+describe('createFakeStarterApi', () => {
+  it('should serve public endpoints without a token', async () => {
+    const { api } = setup(null);
+
+    const info = await api.getApiInfo();
+    const health = await api.getHealth();
+
+    expect(isSuccessResponse(info) && info.data.name).toBe('Starter API');
+    expect(isSuccessResponse(health) && health.data.status).toBe('ok');
+  });
+
+  it('should require a bearer token on authenticated endpoints', async () => {
+    const { api } = setup(null);
+
+    const response = await api.getHistoryTotal();
+
+    expect(isStructuredErrorResponse(response, 'UNAUTHORIZED')).toBe(true);
+  });
+
+  it('should return the current user', async () => {
+    const { api } = setup();
+
+    const response = await api.getCurrentUser();
+
+    expect(isSuccessResponse(response) && response.data).toEqual(user);
+  });
+
+  it('should list and total only the caller’s history', async () => {
+    const { api } = setup();
+
+    const list = await api.getHistories();
+    const total = await api.getHistoryTotal();
+
+    expect(
+      isSuccessResponse(list) && list.data.map((h: History) => h.id)
+    ).toEqual([hist2, hist1]);
+    expect(isSuccessResponse(total) && total.data).toEqual({
+      total: 30.5,
+      range: { from: null, to: null },
+    });
+  });
+
+  it('should total a resolved preset range', async () => {
+    const { api } = setup();
+
+    const thisMonth = await api.getHistoryTotal({ preset: 'this_month' });
+    const bounded = await api.getHistoryTotal({
+      from: toISODateString('2025-01-02T00:00:00.000Z'),
+    });
+    const invalid = await api.getHistoryTotal({ time_zone: 'Mars/Base' });
+
+    // The fake's clock reads 2025-02-01, after every seeded record.
+    expect(isSuccessResponse(thisMonth) && thisMonth.data).toEqual({
+      total: 0,
+      range: {
+        from: '2025-02-01T00:00:00.000Z',
+        to: '2025-03-01T00:00:00.000Z',
+      },
+    });
+    expect(isSuccessResponse(bounded) && bounded.data.total).toBe(20.5);
+    expect(isStructuredErrorResponse(invalid, 'VALIDATION_FAILED')).toBe(true);
+  });
+
+  it('should summarize only the caller’s history', async () => {
+    const { api } = setup();
+
+    const response = await api.getHistoryStats();
+
+    expect(isSuccessResponse(response) && response.data).toMatchObject({
+      count: 2,
+      sum: 30.5,
+      min: 10,
+      max: 20.5,
+    });
+  });
+
+  it('should page through history with cursors', async () => {
+    const { api } = setup();
+
+    const first = await api.getHistories({ limit: 1 });
+    expect('pageInfo' in first && first.pageInfo.hasMore).toBe(true);
+    const cursor = 'pageInfo' in first ? first.pageInfo.nextCursor : null;
+    const second = await api.getHistories({
+      limit: 1,
+      cursor: cursor ?? undefined,
+    });
+
+    expect(isSuccessResponse(second) && second.data[0].id).toBe(hist1);
+  });
+
+  it('should serve other sort orders as a single page', async () => {
+    const { api } = setup();
+
+    const response = await api.getHistories({ sort: 'value', order: 'asc' });
+
+    expect(
+      isSuccessResponse(response) && response.data.map((h: History) => h.id)
+    ).toEqual([hist1, hist2]);
+    expect('pageInfo' in response && response.pageInfo).toEqual({
+      limit: DEFAULT_PAGE_LIMIT,
+      hasMore: false,
+      nextCursor: null,
+      total: 2,
+    });
+  });
+
+  it('should reject other sort orders that do not fit in one page', async () => {
+    const { api } = setup();
+
+    const response = await api.getHistories({ sort: 'value', limit: 1 });
+
+    expect(isStructuredErrorResponse(response, 'VALIDATION_FAILED')).toBe(true);
+    expect(
+      isStructuredErrorResponse(response) &&
+        response.fieldErrors?.map((e) => `${e.field}:${e.code}`)
+    ).toEqual(['limit:invalid_value']);
+  });
+
+  it('should create, update and delete history', async () => {
+    const { api, fake } = setup();
+
+    const created = await api.createHistory({
+      datetime: '2025-01-20T12:00:00+02:00',
+      value: 5,
+    });
+    expect(isSuccessResponse(created) && created.data).toEqual({
+      id: histNew,
+      user_id: uid,
+      datetime: '2025-01-20T10:00:00.000Z',
+      value: 5,
+      created_at: '2025-02-01T00:00:00.000Z',
+      updated_at: null,
+      revision: 1,
+    });
+
+    const updated = await api.updateHistory(histNew, { value: 7 });
+    expect(isSuccessResponse(updated) && updated.data.value).toBe(7);
+    expect(isSuccessResponse(updated) && updated.data.updated_at).toBe(
+      '2025-02-01T00:00:00.000Z'
+    );
+    expect(isSuccessResponse(updated) && updated.data.revision).toBe(2);
+
+    const deleted = await api.deleteHistory(histNew);
+    expect(isSuccessResponse(deleted)).toBe(true);
+    expect(fake.getHistories().map((h) => h.id)).not.toContain(histNew);
+  });
+
+  it('should apply batches with per-item results', async () => {
+    const { api, fake } = setup();
+
+    const response = await api.batchHistory({
+      operations: [
+        {
+          op: 'create',
+          client_id: 'row-1',
+          body: { datetime: '2025-01-20T00:00:00Z', value: 5 },
+        },
+        { op: 'update', client_id: 'row-2', id: hist1, body: { value: 11 } },
+        { op: 'delete', client_id: 'row-3', id: hist3 },
+        { op: 'delete', client_id: 'row-4', id: hist2 },
+      ],
+    });
+
+    expect(isSuccessResponse(response)).toBe(true);
+    if (!isSuccessResponse(response)) return;
+    const { successes, failures } = partitionBatchItems(response.data.items);
+    expect(response.data.summary).toEqual({
+      total: 4,
+      succeeded: 3,
+      failed: 1,
+    });
+    expect(successes.map((s) => s.client_id)).toEqual([
+      'row-1',
+      'row-2',
+      'row-4',
+    ]);
+    expect(failures).toMatchObject([{ client_id: 'row-3', code: 'NOT_FOUND' }]);
+    expect(fake.getHistories().map((h) => [h.id, h.value])).toEqual([
+      [hist1, 11],
+      [hist3, 99],
+      [histNew, 5],
+    ]);
+  });
+
+  it('should reject stale revisions with the current record', async () => {
+    const { api } = setup();
+    const base = makeHistory({
+      id: hist1,
+      datetime: Date.UTC(2025, 0, 1),
+      value: 10,
+    });
+
+    await api.updateHistory(hist1, { value: 12, expected_revision: 1 });
+    const stale = await api.updateHistory(hist1, {
+      datetime: '2025-01-05T00:00:00Z',
+      expected_revision: 1,
+    });
+
+    expect(isHistoryConflictResponse(stale)).toBe(true);
+    if (!isHistoryConflictResponse(stale)) return;
+    expect(stale.details.current).toMatchObject({ value: 12, revision: 2 });
+
+    const merge = mergeHistoryUpdate(
+      base,
+      { datetime: '2025-01-05T00:00:00Z' },
+      stale.details.current
+    );
+    expect(merge.merged && merge.update).toEqual({
+      datetime: '2025-01-05T00:00:00Z',
+      expected_revision: 2,
+    });
+    if (!merge.merged || !merge.update) return;
+    const retried = await api.updateHistory(hist1, merge.update);
+    expect(isSuccessResponse(retried) && retried.data).toMatchObject({
+      datetime: '2025-01-05T00:00:00.000Z',
+      value: 12,
+      revision: 3,
+    });
+
+    const batch = await api.batchHistory({
+      operations: [
+        {
+          op: 'update',
+          client_id: 'row-1',
+          id: hist1,
+          body: { value: 1, expected_revision: 2 },
+        },
+      ],
+    });
+    expect(isSuccessResponse(batch) && batch.data.items).toMatchObject([
+      {
+        client_id: 'row-1',
+        success: false,
+        code: 'CONFLICT',
+        details: { current: { revision: 3 }, expected_revision: 2 },
+      },
+    ]);
+  });
+
+  it('should return validation errors with field details', async () => {
+    const { api } = setup();
+
+    const response = await api.createHistory({
+      datetime: 'soon',
+      value: -1,
+    });
+
+    expect(isStructuredErrorResponse(response, 'VALIDATION_FAILED')).toBe(true);
+    if (isStructuredErrorResponse(response)) {
+      expect(response.fieldErrors?.map((e) => e.field)).toEqual([
+        'datetime',
+        'value',
+      ]);
+    }
+  });
+
+  it('should hide other users’ records as not found', async () => {
+    const { api } = setup();
+
+    const read = await api.getHistory(hist3);
+    const update = await api.updateHistory(hist3, { value: 1 });
+    const remove = await api.deleteHistory(hist3);
+
+    expect(isStructuredErrorResponse(read, 'NOT_FOUND')).toBe(true);
+    expect(isStructuredErrorResponse(update, 'NOT_FOUND')).toBe(true);
+    expect(isStructuredErrorResponse(remove, 'NOT_FOUND')).toBe(true);
+  });
+
+  it('should inject structured errors for a route and count', async () => {
+    const { api, fake } = setup();
+    fake.injectFault(
+      { type: 'error', code: 'RATE_LIMITED' },
+      { route: 'GET /history/total', times: 2 }
+    );
+
+    const health = await api.getHealth();
+    const first = await api.getHistoryTotal();
+    const second = await api.getHistoryTotal();
+    const third = await api.getHistoryTotal();
+
+    expect(isSuccessResponse(health)).toBe(true);
+    expect(isStructuredErrorResponse(first, 'RATE_LIMITED')).toBe(true);
+    expect(isStructuredErrorResponse(second, 'RATE_LIMITED')).toBe(true);
+    expect(isSuccessResponse(third)).toBe(true);
+  });
+
+  it('should inject network failures as rejections', async () => {
+    const { fake } = setup();
+    fake.injectFault({ type: 'network', message: 'socket hang up' });
+
+    await expect(fake.get('https://fake.local/v1/health')).rejects.toThrow(
+      'socket hang up'
+    );
+  });
+
+  it('should apply latency', async () => {
+    vi.useFakeTimers();
+    try {
+      const { fake } = setup();
+      fake.setLatency(500);
+      let settled = false;
+      const pending = fake.get('/v1/health').then(() => {
+        settled = true;
+      });
+
+      await vi.advanceTimersByTimeAsync(499);
+      expect(settled).toBe(false);
+      await vi.advanceTimersByTimeAsync(1);
+      await pending;
+      expect(settled).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should answer unknown routes, bad paths and bad JSON with errors', async () => {
+    const { fake } = setup();
+
+    const missing = await fake.get('/v1/nope');
+    const badPath = await fake.request('/v1/history/%E0%A4%A', {
+      headers: { authorization: 'Bearer uid123' },
+    });
+    const badJson = await fake.request('/v1/history', {
+      method: 'POST',
+      body: '{',
+      headers: { authorization: 'Bearer uid123' },
+    });
+
+    expect(missing.status).toBe(404);
+    expect(badPath.status).toBe(400);
+    expect(isStructuredErrorResponse(badPath, 'BAD_REQUEST')).toBe(true);
+    expect(badJson.status).toBe(400);
+  });
+
+  it('should seed, snapshot and reset the store', () => {
+    const { fake } = setup();
+
+    fake.getUsers()[0].email = 'mutated@example.com';
+    expect(fake.getUsers()[0].email).toBe('user@example.com');
+
+    fake.reset();
+    expect(fake.getUsers()).toEqual([]);
+    expect(fake.getHistories()).toEqual([]);
+  });
+});
@@ -0,0 +1,597 @@
+import type {
+  BaseResponse,
+  NetworkClient,
+  NetworkRequestOptions,
+  NetworkResponse,
+  Optional,
+} from '@sudobility/types';
+import {
+  batchItemFailure,
+  batchItemSuccess,
+  batchResponse,
+  validateHistoryBatchRequest,
+  type BatchItemResult,
+} from './batch.js';
+import { checkHistoryRevision } from './concurrency.js';
+import { toISODateString } from './dates.js';
+import { applyHistoryUpdate } from './diff.js';
+import { ERROR_CODE_HTTP_STATUS, type ErrorCode } from './errors.js';
+import { isUserId, toHistoryId } from './ids.js';
+import { delay } from './internal.js';
+import { DEFAULT_PAGE_LIMIT, paginateHistory } from './pagination.js';
+import {
+  matchesHistoryQuery,
+  parseHistoryQuery,
+  parseHistoryTotalRequest,
+} from './query.js';
+import { resolveHistoryTotalRange } from './ranges.js';
+import {
+  errorResponse,
+  paginatedResponse,
+  successResponse,
+} from './responses.js';
+import { STARTER_API_ROUTES, type RouteKey } from './routes.js';
+import { computeHistoryStats, sumValues } from './stats.js';
+import type {
+  ApiInfoResponse,
+  HealthResponse,
+  History,
+  HistoryCreateRequest,
+  HistoryId,
+  HistoryUpdateRequest,
+  User,
+  UserId,
+} from './types.js';
+import type { FieldError } from './validation.js';
+import {
+  validateHistoryCreateRequest,
+  validateHistoryUpdateRequest,
+} from './validation.js';
+import { STARTER_API_CONTRACT_VERSION } from './version.js';
+
+// =============================================================================
+// Fake API Types
+// =============================================================================
+
+/**
+ * A fault to inject into the fake API's next matching request(s).
+ *
+ * - `error` - respond with a structured error envelope of the given code
+ * - `network` - reject the request promise, as a dropped connection would
+ */
+export type FakeFault =
+  | { type: 'error'; code: ErrorCode; message?: string }
+  | { type: 'network'; message?: string };
+
+/**
+ * Options for {@link FakeStarterApi.injectFault}.
+ */
+export interface FakeFaultOptions {
+  /** Only fail requests to this route; defaults to any route */
+  route?: RouteKey;
+  /** Number of requests to fail before the fault clears, defaults to 1 */
+  times?: number;
+}
+
+/**
+ * Records to load into the fake API's store.
+ */
+export interface FakeStarterApiSeed {
+  /** Users, keyed by `firebase_uid` */
+  users?: User[];
+  /** History records, keyed by `id` */
+  histories?: History[];
+}
+
+/**
+ * Configuration for {@link createFakeStarterApi}.
+ */
+export interface FakeStarterApiOptions extends FakeStarterApiSeed {
+  /** Path prefix stripped before route matching, e.g. `/v1` */
+  basePath?: string;
+  /** Artificial delay applied to every request, in milliseconds */
+  latencyMs?: number;
+  /**
+   * Maps a bearer token to a Firebase UID; defaults to the token itself
+   * when it is a well-formed UID
+   */
+  resolveToken?: (token: string) => Optional<UserId>;
+  /** Clock used for `created_at`/`updated_at`, defaults to `new Date()` */
+  now?: () => Date;
+  /** Id generator for new history records, defaults to a random UUID v4 */
+  generateId?: () => HistoryId;
+  /** Payload for `GET /` */
+  apiInfo?: ApiInfoResponse;
+  /** Payload for `GET /health` */
+  health?: HealthResponse;
+}
+
+/**
+ * In-memory implementation of the Starter API exposed as a
+ * {@link NetworkClient}, for offline integration tests.
+ */
+export interface FakeStarterApi extends NetworkClient {
+  /** Adds or replaces users and history records in the store. */
+  seed(records: FakeStarterApiSeed): void;
+  /** Removes all records and pending faults. */
+  reset(): void;
+  /** Snapshot of all stored users. */
+  getUsers(): User[];
+  /** Snapshot of all stored history records. */
+  getHistories(): History[];
+  /** Makes the next matching request(s) fail with the given fault. */
+  injectFault(fault: FakeFault, options?: FakeFaultOptions): void;
+  /** Changes the artificial per-request delay. */
+  setLatency(ms: number): void;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function randomUuid(): HistoryId {
+  return toHistoryId(
+    'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+      const nibble = Math.floor(Math.random() * 16);
+      return (char === 'x' ? nibble : (nibble & 0x3) | 0x8).toString(16);
+    })
+  );
+}
+
+function header(
+  headers: Optional<Record<string, string>>,
+  name: string
+): string | undefined {
+  const match = Object.keys(headers ?? {}).find(
+    (key) => key.toLowerCase() === name.toLowerCase()
+  );
+  return match === undefined ? undefined : headers![match];
+}
+
+function toNetworkResponse<T>(
+  envelope: BaseResponse<T>,
+  status: number
+): NetworkResponse<T> {
+  return {
+    ...envelope,
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status < 300 ? 'OK' : 'Error',
+    headers: { 'content-type': 'application/json' },
+  };
+}
+
+function failure(
+  code: ErrorCode,
+  message: string,
+  fieldErrors?: FieldError[]
+): NetworkResponse<never> {
+  return toNetworkResponse(
+    fieldErrors
+      ? errorResponse(message, { code, fieldErrors })
+      : errorResponse(message, { code }),
+    ERROR_CODE_HTTP_STATUS[code]
+  );
+}
+
+// =============================================================================
+// Fake API
+// =============================================================================
+
+/**
+ * Creates an in-memory fake of the Starter API that implements
+ * {@link NetworkClient}, so it can be passed straight to
+ * {@link StarterApiClient} or any code expecting a transport.
+ *
+ * Endpoint semantics follow the real API: bodies and queries are validated
+ * with the package's validators (`VALIDATION_FAILED`), authenticated routes
+ * require `Authorization: Bearer <token>` (`UNAUTHORIZED`), and history
+ * records belonging to other users are reported as `NOT_FOUND`. List
+ * responses use {@link paginateHistory} for the default newest-first order;
+ * other sort orders are rejected when the matches do not fit in one page.
+ *
+ * @param options - Seed data, clock, latency and auth configuration
+ * @returns The fake API
+ *
+ * @example
+ * ```typescript
+ * const fake = createFakeStarterApi({
+ *   users: [{ firebase_uid: toUserId('uid123'), ... }],
+ * });
+ * const api = new StarterApiClient(fake, {
+ *   baseUrl: 'https://fake.local',
+ *   getAuthToken: () => 'uid123',
+ * });
+ *
+ * fake.injectFault({ type: 'error', code: 'INTERNAL' }, { route: 'POST /history' });
+ * const response = await api.createHistory({ datetime, value: 1 });
+ * // response.code === 'INTERNAL'
+ * ```
+ */
+export function createFakeStarterApi(
+  options: FakeStarterApiOptions = {}
+): FakeStarterApi {
+  const users = new Map<string, User>();
+  const histories = new Map<string, History>();
+  let faults: Array<{ fault: FakeFault; route?: RouteKey; remaining: number }> =
+    [];
+  let latencyMs = options.latencyMs ?? 0;
+
+  const basePath = (options.basePath ?? '').replace(/\/+$/, '');
+  const resolveToken =
+    options.resolveToken ??
+    ((token: string) => (isUserId(token) ? token : null));
+  const now = options.now ?? (() => new Date());
+  const generateId = options.generateId ?? randomUuid;
+  const apiInfo: ApiInfoResponse = options.apiInfo ?? {
+    name: 'Starter API',
+    version: STARTER_API_CONTRACT_VERSION,
+    status: 'ok',
+  };
+  const health: HealthResponse = options.health ?? {
+    status: 'ok',
+    version: apiInfo.version,
+  };
+
+  function seed(records: FakeStarterApiSeed): void {
+    for (const user of records.users ?? []) {
+      users.set(user.firebase_uid, { ...user });
+    }
+    for (const history of records.histories ?? []) {
+      histories.set(history.id, { ...history });
+    }
+  }
+
+  function matchRoute(
+    method: string,
+    path: string
+  ): { key: RouteKey; params: Record<string, string> } | null {
+    for (const key of Object.keys(STARTER_API_ROUTES) as RouteKey[]) {
+      const route = STARTER_API_ROUTES[key];
+      if (route.method !== method) {
+        continue;
+      }
+      const names: string[] = [];
+      const pattern = route.path.replace(
+        /:([A-Za-z_][A-Za-z0-9_]*)/g,
+        (_m, n) => {
+          names.push(n);
+          return '([^/]+)';
+        }
+      );
+      const match = new RegExp(`^${pattern}$`).exec(path);
+      if (match) {
+        const params: Record<string, string> = {};
+        names.forEach((name, i) => {
+          params[name] = match[i + 1];
+        });
+        return { key, params };
+      }
+    }
+    return null;
+  }
+
+  function takeFault(key: RouteKey | null): FakeFault | null {
+    const entry = faults.find((f) => f.route === undefined || f.route === key);
+    if (!entry) {
+      return null;
+    }
+    entry.remaining -= 1;
+    faults = faults.filter((f) => f.remaining > 0);
+    return entry.fault;
+  }
+
+  function ownedHistory(uid: UserId, id: string): History | null {
+    const history = histories.get(id);
+    return history && history.user_id === uid ? history : null;
+  }
+
+  function insertHistory(uid: UserId, body: HistoryCreateRequest): History {
+    const history: History = {
+      id: generateId(),
+      user_id: uid,
+      datetime: toISODateString(body.datetime),
+      value: body.value,
+      created_at: toISODateString(now()),
+      updated_at: null,
+      revision: 1,
+    };
+    histories.set(history.id, history);
+    return history;
+  }
+
+  function modifyHistory(
+    history: History,
+    body: HistoryUpdateRequest
+  ): History {
+    const updated = applyHistoryUpdate(history, body, now());
+    histories.set(updated.id, updated);
+    return updated;
+  }
+
+  function handle(
+    key: RouteKey,
+    params: Record<string, string>,
+    query: string,
+    uid: UserId | null,
+    body: unknown
+  ): NetworkResponse<unknown> {
+    switch (key) {
+      case 'GET /':
+        return toNetworkResponse(successResponse(apiInfo), 200);
+      case 'GET /health':
+        return toNetworkResponse(successResponse(health), 200);
+    }
+
+    if (uid === null) {
+      return failure('UNAUTHORIZED', 'Missing or invalid bearer token');
+    }
+
+    switch (key) {
+      case 'GET /users/me': {
+        const user = users.get(uid);
+        return user
+          ? toNetworkResponse(successResponse({ ...user }), 200)
+          : failure('NOT_FOUND', 'User not found');
+      }
+      case 'GET /history': {
+        const parsed = parseHistoryQuery(query);
+        if (!parsed.valid) {
+          return failure('VALIDATION_FAILED', 'Invalid query', parsed.errors);
+        }
+        const {
+          sort = 'datetime',
+          order = 'desc',
+          limit,
+          cursor,
+        } = parsed.value;
+        const visible = [...histories.values()].filter(
+          (h) => h.user_id === uid && matchesHistoryQuery(h, parsed.value)
+        );
+        if (sort === 'datetime' && order === 'desc') {
+          try {
+            const page = paginateHistory(visible, cursor, limit);
+            return toNetworkResponse(
+              paginatedResponse(page.items, page.pageInfo),
+              200
+            );
+          } catch (error) {
+            return failure('BAD_REQUEST', (error as Error).message);
+          }
+        }
+        // Cursors only cover the default order (see HistoryQuery), so other
+        // orders must fit in a single page.
+        const pageSize = limit ?? DEFAULT_PAGE_LIMIT;
+        if (visible.length > pageSize) {
+          return failure('VALIDATION_FAILED', 'Invalid query', [
+            {
+              field: 'limit',
+              code: 'invalid_value',
+              message: `${visible.length} records match but only the default sort can be paged; narrow the query or raise limit`,
+            },
+          ]);
+        }
+        const direction = order === 'asc' ? 1 : -1;
+        const sorted = visible.sort((a, b) =>
+          sort === 'value'
+            ? (a.value - b.value) * direction
+            : (Date.parse(a.datetime) - Date.parse(b.datetime)) * direction
+        );
+        return toNetworkResponse(
+          paginatedResponse(sorted, {
+            limit: pageSize,
+            hasMore: false,
+            nextCursor: null,
+            total: sorted.length,
+          }),
+          200
+        );
+      }
+      case 'POST /history': {
+        const result = validateHistoryCreateRequest(body);
+        if (!result.valid) {
+          return failure(
+            'VALIDATION_FAILED',
+            'Invalid request body',
+            result.errors
+          );
+        }
+        const history = insertHistory(uid, result.value);
+        return toNetworkResponse(successResponse({ ...history }), 201);
+      }
+      case 'POST /history/batch': {
+        const result = validateHistoryBatchRequest(body);
+        if (!result.valid) {
+          return failure(
+            'VALIDATION_FAILED',
+            'Invalid request body',
+            result.errors
+          );
+        }
+        const items = result.value.operations.map(
+          (operation): BatchItemResult<History | null> => {
+            if (operation.op === 'create') {
+              const history = insertHistory(uid, operation.body);
+              return batchItemSuccess(operation.client_id, { ...history });
+            }
+            const history = ownedHistory(uid, operation.id);
+            if (!history) {
+              return batchItemFailure(
+                operation.client_id,
+                'History not found',
+                { code: 'NOT_FOUND', details: { id: operation.id } }
+              );
+            }
+            if (operation.op === 'update') {
+              const conflict = checkHistoryRevision(history, operation.body);
+              if (conflict) {
+                return batchItemFailure(operation.client_id, conflict.error, {
+                  code: 'CONFLICT',
+                  details: { ...conflict.details },
+                });
+              }
+              const updated = modifyHistory(history, operation.body);
+              return batchItemSuccess(operation.client_id, { ...updated });
+            }
+            histories.delete(operation.id);
+            return batchItemSuccess(operation.client_id, null);
+          }
+        );
+        return toNetworkResponse(batchResponse(items), 200);
+      }
+      case 'GET /history/total': {
+        const parsed = parseHistoryTotalRequest(query);
+        if (!parsed.valid) {
+          return failure('VALIDATION_FAILED', 'Invalid query', parsed.errors);
+        }
+        const range = resolveHistoryTotalRange(parsed.value, now());
+        const bounds = {
+          ...(range.from !== null && { from: range.from }),
+          ...(range.to !== null && { to: range.to }),
+        };
+        const total = sumValues(
+          [...histories.values()]
+            .filter((h) => h.user_id === uid && matchesHistoryQuery(h, bounds))
+            .map((h) => h.value)
+        );
+        return toNetworkResponse(successResponse({ total, range }), 200);
+      }
+      case 'GET /history/stats': {
+        const owned = [...histories.values()].filter((h) => h.user_id === uid);
+        return toNetworkResponse(
+          successResponse(computeHistoryStats(owned)),
+          200
+        );
+      }
+      case 'GET /history/:id': {
+        const history = ownedHistory(uid, params.id);
+        return history
+          ? toNetworkResponse(successResponse({ ...history }), 200)
+          : failure('NOT_FOUND', 'History not found');
+      }
+      case 'PATCH /history/:id': {
+        const history = ownedHistory(uid, params.id);
+        if (!history) {
+          return failure('NOT_FOUND', 'History not found');
+        }
+        const result = validateHistoryUpdateRequest(body);
+        if (!result.valid) {
+          return failure(
+            'VALIDATION_FAILED',
+            'Invalid request body',
+            result.errors
+          );
+        }
+        const conflict = checkHistoryRevision(history, result.value);
+        if (conflict) {
+          return toNetworkResponse(conflict, ERROR_CODE_HTTP_STATUS.CONFLICT);
+        }
+        const updated = modifyHistory(history, result.value);
+        return toNetworkResponse(successResponse({ ...updated }), 200);
+      }
+      case 'DELETE /history/:id': {
+        if (!ownedHistory(uid, params.id)) {
+          return failure('NOT_FOUND', 'History not found');
+        }
+        histories.delete(params.id);
+        return toNetworkResponse(successResponse(null), 200);
+      }
+    }
+  }
+
+  async function request<T = unknown>(
+    url: string,
+    init?: Optional<NetworkRequestOptions>
+  ): Promise<NetworkResponse<T>> {
+    if (latencyMs > 0) {
+      await delay(latencyMs);
+    }
+
+    const method = init?.method ?? 'GET';
+    const [rawPath, query = ''] = url
+      .replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]+/i, '')
+      .split('?');
+    const path =
+      basePath && rawPath.startsWith(basePath)
+        ? rawPath.slice(basePath.length) || '/'
+        : rawPath || '/';
+    const route = matchRoute(method, path);
+
+    const fault = takeFault(route?.key ?? null);
+    if (fault?.type === 'network') {
+      throw new Error(fault.message ?? 'Network request failed');
+    }
+    if (fault?.type === 'error') {
+      return failure(fault.code, fault.message ?? `Injected ${fault.code}`);
+    }
+
+    if (!route) {
+      return failure('NOT_FOUND', `No route for ${method} ${path}`);
+    }
+
+    const params: Record<string, string> = {};
+    try {
+      for (const [name, value] of Object.entries(route.params)) {
+        params[name] = decodeURIComponent(value);
+      }
+    } catch {
+      return failure(
+        'BAD_REQUEST',
+        'Request path is not valid percent-encoding'
+      );
+    }
+
+    let body: unknown = undefined;
+    if (typeof init?.body === 'string' && init.body !== '') {
+      try {
+        body = JSON.parse(init.body);
+      } catch {
+        return failure('BAD_REQUEST', 'Request body is not valid JSON');
+      }
+    }
+
+    const authorization = header(init?.headers, 'Authorization');
+    const token = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+    const uid = token ? (resolveToken(token) ?? null) : null;
+
+    return handle(route.key, params, query, uid, body) as NetworkResponse<T>;
+  }
+
+  function withBody(body: Optional<unknown>): string | undefined {
+    if (body === undefined || body === null) {
+      return undefined;
+    }
+    return typeof body === 'string' ? body : JSON.stringify(body);
+  }
+
+  seed(options);
+
+  return {
+    request,
+    get: (url, init) => request(url, { ...init, method: 'GET' }),
+    post: (url, body, init) =>
+      request(url, { ...init, method: 'POST', body: withBody(body) }),
+    put: (url, body, init) =>
+      request(url, { ...init, method: 'PUT', body: withBody(body) }),
+    delete: (url, init) => request(url, { ...init, method: 'DELETE' }),
+    seed,
+    reset() {
+      users.clear();
+      histories.clear();
+      faults = [];
+    },
+    getUsers: () => [...users.values()].map((user) => ({ ...user })),
+    getHistories: () =>
+      [...histories.values()].map((history) => ({ ...history })),
+    injectFault(fault, faultOptions = {}) {
+      faults.push({
+        fault,
+        route: faultOptions.route,
+        remaining: faultOptions.times ?? 1,
+      });
+    },
+    setLatency(ms) {
+      latencyMs = ms;
+    },
+  };
+}
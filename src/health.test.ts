@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  aggregateHealth,
+  runHealthChecks,
+  type HealthCheck,
+  type HealthComponent,
+  type HealthStatus,
+} from './index.js';
+
+function check(component: HealthComponent, status: HealthStatus): HealthCheck {
+  return { component, status, latency_ms: 1 };
+}
+
+describe('aggregateHealth', () => {
+  it('should be ok when every check is ok or there are none', () => {
+    expect(aggregateHealth([])).toBe('ok');
+    expect(
+      aggregateHealth([check('database', 'ok'), check('cache', 'ok')])
+    ).toBe('ok');
+  });
+
+  it('should go down only for a critical component', () => {
+    expect(aggregateHealth([check('database', 'down')])).toBe('down');
+    expect(aggregateHealth([check('auth_provider', 'down')])).toBe('down');
+    expect(aggregateHealth([check('cache', 'down')])).toBe('degraded');
+    expect(aggregateHealth([check('database', 'degraded')])).toBe('degraded');
+  });
+
+  it('should honor a custom critical list', () => {
+    const checks = [check('database', 'down'), check('cache', 'ok')];
+
+    expect(aggregateHealth(checks, { critical: [] })).toBe('degraded');
+    expect(
+      aggregateHealth([check('cache', 'down')], { critical: ['cache'] })
+    ).toBe('down');
+  });
+});
+
+describe('runHealthChecks', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should report probe outcomes in order', async () => {
+    const health = await runHealthChecks(
+      [
+        { component: 'database', probe: async () => undefined },
+        {
+          component: 'auth_provider',
+          probe: () => ({ status: 'degraded', message: 'slow JWKS fetch' }),
+        },
+        {
+          component: 'cache',
+          probe: () => {
+            throw new Error('ECONNREFUSED');
+          },
+        },
+      ],
+      { version: '1.2.0' }
+    );
+
+    expect(health).toMatchObject({
+      status: 'degraded',
+      version: '1.2.0',
+      checks: [
+        { component: 'database', status: 'ok' },
+        {
+          component: 'auth_provider',
+          status: 'degraded',
+          message: 'slow JWKS fetch',
+        },
+        { component: 'cache', status: 'down', message: 'ECONNREFUSED' },
+      ],
+    });
+    expect(health.checks?.[0]).not.toHaveProperty('message');
+    expect(typeof health.checks?.[0].latency_ms).toBe('number');
+  });
+
+  it('should mark probes that exceed their timeout as down', async () => {
+    vi.useFakeTimers();
+    const pending = runHealthChecks(
+      [
+        { component: 'database', probe: () => new Promise(() => {}) },
+        {
+          component: 'cache',
+          probe: () => new Promise(() => {}),
+          timeoutMs: 50,
+        },
+      ],
+      { version: '1.2.0', timeoutMs: 100 }
+    );
+    await vi.advanceTimersByTimeAsync(100);
+    const health = await pending;
+
+    expect(health.status).toBe('down');
+    expect(health.checks).toEqual([
+      {
+        component: 'database',
+        status: 'down',
+        latency_ms: 100,
+        message: 'timed out after 100ms',
+      },
+      {
+        component: 'cache',
+        status: 'down',
+        latency_ms: 50,
+        message: 'timed out after 50ms',
+      },
+    ]);
+  });
+
+  it('should reject invalid timeouts', async () => {
+    await expect(
+      runHealthChecks([], { version: '1.0.0', timeoutMs: 0 })
+    ).rejects.toThrow(RangeError);
+  });
+});
@@ -0,0 +1,240 @@
+import { cancelTimeout, scheduleTimeout } from './internal.js';
+import type { HealthResponse } from './types.js';
+
+// =============================================================================
+// Health Types
+// =============================================================================
+
+/**
+ * Overall or per-component health.
+ *
+ * - `ok` - fully operational
+ * - `degraded` - serving requests, but a component is impaired
+ * - `down` - not serving requests
+ */
+export type HealthStatus = 'ok' | 'degraded' | 'down';
+
+/** Every {@link HealthStatus}, from best to worst. */
+export const HEALTH_STATUSES: readonly HealthStatus[] = [
+  'ok',
+  'degraded',
+  'down',
+];
+
+/** A dependency whose health is checked individually. */
+export type HealthComponent = 'database' | 'auth_provider' | 'cache';
+
+/**
+ * Components whose outage takes the whole API down by default. Other
+ * components only degrade it.
+ */
+export const DEFAULT_CRITICAL_COMPONENTS: readonly HealthComponent[] = [
+  'database',
+  'auth_provider',
+];
+
+/**
+ * Outcome of checking one component.
+ *
+ * @example
+ * ```typescript
+ * const check: HealthCheck = {
+ *   component: 'cache',
+ *   status: 'down',
+ *   latency_ms: 2000,
+ *   message: 'timed out after 2000ms',
+ * };
+ * ```
+ */
+export interface HealthCheck {
+  /** The component that was checked */
+  component: HealthComponent;
+  /** The component's health */
+  status: HealthStatus;
+  /** How long the check took, or `null` if it was not timed */
+  latency_ms: number | null;
+  /** Human-readable detail, typically set when not `ok` */
+  message?: string;
+}
+
+/** Options for {@link aggregateHealth}. */
+export interface AggregateHealthOptions {
+  /**
+   * Components whose `down` status makes the aggregate `down`. Defaults to
+   * {@link DEFAULT_CRITICAL_COMPONENTS}.
+   */
+  critical?: readonly HealthComponent[];
+}
+
+/**
+ * What a probe may report. Resolving without a result means `ok`;
+ * rejecting means `down`, with the error message.
+ */
+export interface HealthProbeResult {
+  /** The component's health, defaults to `ok` */
+  status?: HealthStatus;
+  /** Human-readable detail, copied to {@link HealthCheck.message} */
+  message?: string;
+}
+
+/** A component and the function that probes it, for {@link runHealthChecks}. */
+export interface HealthCheckDefinition {
+  /** The component the probe checks */
+  component: HealthComponent;
+  /** Checks the component; may be async, and may throw to report `down` */
+  probe: () => HealthProbeResult | void | Promise<HealthProbeResult | void>;
+  /** Overrides {@link RunHealthChecksOptions.timeoutMs} for this check */
+  timeoutMs?: number;
+}
+
+/** Options for {@link runHealthChecks}. */
+export interface RunHealthChecksOptions extends AggregateHealthOptions {
+  /** The API version to report */
+  version: string;
+  /** Time after which a probe counts as `down`. Defaults to 2000. */
+  timeoutMs?: number;
+}
+
+// =============================================================================
+// Aggregation
+// =============================================================================
+
+/**
+ * Derives the overall status from component checks.
+ *
+ * A critical component that is `down` makes the result `down`. Any other
+ * check that is not `ok` (a degraded critical component, or a non-critical
+ * one that is degraded or down) makes it `degraded`. No checks means `ok`.
+ *
+ * @param checks - Component checks
+ * @param options - Which components are critical
+ * @returns The overall status
+ *
+ * @example
+ * ```typescript
+ * aggregateHealth([
+ *   { component: 'database', status: 'ok', latency_ms: 3 },
+ *   { component: 'cache', status: 'down', latency_ms: null },
+ * ]); // 'degraded'
+ * ```
+ */
+export function aggregateHealth(
+  checks: readonly HealthCheck[],
+  options: AggregateHealthOptions = {}
+): HealthStatus {
+  const critical = options.critical ?? DEFAULT_CRITICAL_COMPONENTS;
+  let status: HealthStatus = 'ok';
+  for (const check of checks) {
+    if (check.status === 'down' && critical.includes(check.component)) {
+      return 'down';
+    }
+    if (check.status !== 'ok') {
+      status = 'degraded';
+    }
+  }
+  return status;
+}
+
+// =============================================================================
+// Running Checks
+// =============================================================================
+
+async function runCheck(
+  definition: HealthCheckDefinition,
+  defaultTimeoutMs: number
+): Promise<HealthCheck> {
+  const timeoutMs = definition.timeoutMs ?? defaultTimeoutMs;
+  const started = Date.now();
+  let handle: unknown;
+  const timeout = new Promise<HealthProbeResult>((resolve) => {
+    handle = scheduleTimeout(
+      () =>
+        resolve({ status: 'down', message: `timed out after ${timeoutMs}ms` }),
+      timeoutMs
+    );
+  });
+
+  let result: HealthProbeResult;
+  try {
+    result = await Promise.race([
+      Promise.resolve()
+        .then(definition.probe)
+        .then((outcome) => outcome ?? {}),
+      timeout,
+    ]);
+  } catch (error) {
+    result = {
+      status: 'down',
+      message: error instanceof Error ? error.message : 'check failed',
+    };
+  } finally {
+    cancelTimeout(handle);
+  }
+
+  const check: HealthCheck = {
+    component: definition.component,
+    status: result.status ?? 'ok',
+    latency_ms: Date.now() - started,
+  };
+  if (result.message !== undefined) {
+    check.message = result.message;
+  }
+  return check;
+}
+
+/**
+ * Probes components concurrently and builds a {@link HealthResponse}.
+ *
+ * Each probe is bounded by its timeout; one that throws, rejects or times
+ * out is reported as `down` rather than failing the whole check.
+ *
+ * @param definitions - Components and their probes
+ * @param options - Version to report, default timeout and critical components
+ * @returns The health response, with one check per definition in order
+ * @throws {RangeError} If a timeout is not a positive finite number
+ *
+ * @example
+ * ```typescript
+ * app.get('/health', async (c) => {
+ *   const health = await runHealthChecks(
+ *     [
+ *       {
+ *         component: 'database',
+ *         probe: async () => {
+ *           await db.execute(sql`select 1`);
+ *         },
+ *       },
+ *       {
+ *         component: 'cache',
+ *         probe: async () => {
+ *           await redis.ping();
+ *         },
+ *         timeoutMs: 500,
+ *       },
+ *     ],
+ *     { version: API_VERSION }
+ *   );
+ *   return c.json(successResponse(health), health.status === 'down' ? 503 : 200);
+ * });
+ * ```
+ */
+export async function runHealthChecks(
+  definitions: readonly HealthCheckDefinition[],
+  options: RunHealthChecksOptions
+): Promise<HealthResponse> {
+  const timeoutMs = options.timeoutMs ?? 2000;
+  for (const ms of [timeoutMs, ...definitions.map((d) => d.timeoutMs)]) {
+    if (ms !== undefined && !(Number.isFinite(ms) && ms > 0)) {
+      throw new RangeError('timeoutMs must be a positive finite number');
+    }
+  }
+
+  const checks = await Promise.all(
+    definitions.map((definition) => runCheck(definition, timeoutMs))
+  );
+  return {
+    status: aggregateHealth(checks, options),
+    version: options.version,
+    checks,
+  };
+}
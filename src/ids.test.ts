@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isHistoryId,
+  isUserId,
+  toHistoryId,
+  toUserId,
+  MAX_USER_ID_LENGTH,
+} from './index.js';
+
+describe('user ids', () => {
+  it('should accept Firebase and custom-token UIDs', () => {
+    expect(isUserId('Xk3pQ9rT2vLm8NwYz4Ab6Cd1Ef5G')).toBe(true);
+    expect(isUserId('provider:123')).toBe(true);
+    expect(isUserId('a'.repeat(MAX_USER_ID_LENGTH))).toBe(true);
+    expect(toUserId('team-42_user.1')).toBe('team-42_user.1');
+  });
+
+  it('should reject empty, long and malformed UIDs', () => {
+    expect(isUserId('')).toBe(false);
+    expect(isUserId('a'.repeat(MAX_USER_ID_LENGTH + 1))).toBe(false);
+    expect(isUserId('uid 123')).toBe(false);
+    expect(isUserId('uid/123')).toBe(false);
+    expect(isUserId(123)).toBe(false);
+    expect(() => toUserId('')).toThrow(RangeError);
+  });
+});
+
+describe('history ids', () => {
+  it('should accept lowercase UUIDs and lowercase on construction', () => {
+    expect(isHistoryId('3f2b8c1e-9d4a-4f6b-8e2c-7a1d5b9c0e4f')).toBe(true);
+    expect(isHistoryId('3F2B8C1E-9D4A-4F6B-8E2C-7A1D5B9C0E4F')).toBe(false);
+    expect(toHistoryId('3F2B8C1E-9D4A-4F6B-8E2C-7A1D5B9C0E4F')).toBe(
+      '3f2b8c1e-9d4a-4f6b-8e2c-7a1d5b9c0e4f'
+    );
+  });
+
+  it('should reject anything else', () => {
+    expect(isHistoryId('hist-1')).toBe(false);
+    expect(isHistoryId('3f2b8c1e9d4a4f6b8e2c7a1d5b9c0e4f')).toBe(false);
+    expect(isHistoryId(null)).toBe(false);
+    expect(() => toHistoryId('{3f2b8c1e-9d4a-4f6b-8e2c-7a1d5b9c0e4f}')).toThrow(
+      RangeError
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import type { HistoryId, UserId } from './types.js';
+
+// =============================================================================
+// Formats
+// =============================================================================
+
+/** Maximum length of a Firebase Authentication UID. */
+export const MAX_USER_ID_LENGTH = 128;
+
+/**
+ * Characters allowed in a {@link UserId}. Generated Firebase UIDs are
+ * alphanumeric; custom-token UIDs commonly add separators such as
+ * `provider:123` or `team-42_user`.
+ */
+export const USER_ID_PATTERN = /^[A-Za-z0-9._:-]+$/;
+
+/** A {@link HistoryId}: a UUID in canonical lowercase form. */
+export const HISTORY_ID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// =============================================================================
+// User Ids
+// =============================================================================
+
+/**
+ * Type guard for {@link UserId}: a string of 1 to
+ * {@link MAX_USER_ID_LENGTH} letters, digits, `.`, `_`, `:` or `-`.
+ *
+ * @param value - The value to check
+ * @returns `true` if `value` is a well-formed user id
+ *
+ * @example
+ * ```typescript
+ * if (isUserId(claims.uid)) {
+ *   await loadUser(claims.uid); // narrowed to UserId
+ * }
+ * ```
+ */
+export function isUserId(value: unknown): value is UserId {
+  return (
+    typeof value === 'string' &&
+    value.length <= MAX_USER_ID_LENGTH &&
+    USER_ID_PATTERN.test(value)
+  );
+}
+
+/**
+ * Brands a string as a {@link UserId} after checking its format.
+ *
+ * @param input - A Firebase Authentication UID
+ * @returns The same string, branded
+ * @throws {RangeError} If the input is not a well-formed user id
+ *
+ * @example
+ * ```typescript
+ * const uid = toUserId(decodedToken.uid);
+ * ```
+ */
+export function toUserId(input: string): UserId {
+  if (!isUserId(input)) {
+    throw new RangeError(`Invalid user id: ${input}`);
+  }
+  return input;
+}
+
+// =============================================================================
+// History Ids
+// =============================================================================
+
+/**
+ * Type guard for {@link HistoryId}: a UUID in canonical lowercase form.
+ *
+ * @param value - The value to check
+ * @returns `true` if `value` is a lowercase UUID string
+ *
+ * @example
+ * ```typescript
+ * if (!isHistoryId(c.req.param('id'))) {
+ *   return c.json(errorResponse('History not found', { code: 'NOT_FOUND' }), 404);
+ * }
+ * ```
+ */
+export function isHistoryId(value: unknown): value is HistoryId {
+  return typeof value === 'string' && HISTORY_ID_PATTERN.test(value);
+}
+
+/**
+ * Brands a UUID string as a {@link HistoryId}, lowercasing it.
+ *
+ * @param input - A UUID in any letter case
+ * @returns The lowercase UUID, branded
+ * @throws {RangeError} If the input is not a UUID
+ *
+ * @example
+ * ```typescript
+ * toHistoryId('3F2B8C1E-9D4A-4F6B-8E2C-7A1D5B9C0E4F');
+ * // '3f2b8c1e-9d4a-4f6b-8e2c-7a1d5b9c0e4f'
+ * ```
+ */
+export function toHistoryId(input: string): HistoryId {
+  const id = input.toLowerCase();
+  if (!isHistoryId(id)) {
+    throw new RangeError(`Invalid history id: ${input}`);
+  }
+  return id;
+}
@@ -4,6 +4,8 @@ import {
   errorResponse,
   isSuccessResponse,
   isErrorResponse,
+  toHistoryId,
+  toUserId,
   type User,
   type History,
   type HistoryCreateRequest,
@@ -14,7 +16,7 @@ import {
   type NetworkClient,
   type Optional,
   type ISODateString,
-} from './index';
+} from './index.js';
 
 describe('starter_types', () => {
   describe('successResponse', () => {
@@ -84,11 +86,11 @@ describe('starter_types', () => {
   describe('Type structure validation', () => {
     it('User type should accept valid user objects', () => {
       const user: User = {
-        firebase_uid: 'uid123',
+        firebase_uid: toUserId('uid123'),
         email: 'test@example.com',
         display_name: 'Test User',
-        created_at: '2025-01-15T10:30:00.000Z',
-        updated_at: '2025-01-15T10:30:00.000Z',
+        created_at: '2025-01-15T10:30:00.000Z' as ISODateString,
+        updated_at: '2025-01-15T10:30:00.000Z' as ISODateString,
       };
 
       expect(user.firebase_uid).toBe('uid123');
@@ -97,7 +99,7 @@ describe('starter_types', () => {
 
     it('User type should accept null fields', () => {
       const user: User = {
-        firebase_uid: 'uid123',
+        firebase_uid: toUserId('uid123'),
         email: null,
         display_name: null,
         created_at: null,
@@ -110,15 +112,16 @@ describe('starter_types', () => {
 
     it('History type should accept valid history objects', () => {
       const history: History = {
-        id: 'hist-uuid-1',
-        user_id: 'uid123',
-        datetime: '2025-01-15T10:30:00.000Z',
+        id: toHistoryId('3f2b8c1e-9d4a-4f6b-8e2c-7a1d5b9c0e4f'),
+        user_id: toUserId('uid123'),
+        datetime: '2025-01-15T10:30:00.000Z' as ISODateString,
         value: 42.5,
-        created_at: '2025-01-15T10:30:00.000Z',
+        created_at: '2025-01-15T10:30:00.000Z' as ISODateString,
         updated_at: null,
+        revision: 1,
       };
 
-      expect(history.id).toBe('hist-uuid-1');
+      expect(history.id).toBe('3f2b8c1e-9d4a-4f6b-8e2c-7a1d5b9c0e4f');
       expect(history.value).toBe(42.5);
     });
 
@@ -222,16 +225,17 @@ describe('starter_types', () => {
   describe('ApiResponse type compatibility', () => {
     it('successResponse should work with ApiResponse type annotation', () => {
       const response: BaseResponse<History> = successResponse({
-        id: '123',
-        user_id: 'user1',
-        datetime: '2025-01-15T10:30:00.000Z',
+        id: toHistoryId('00000000-0000-4000-8000-000000000123'),
+        user_id: toUserId('user1'),
+        datetime: '2025-01-15T10:30:00.000Z' as ISODateString,
         value: 100,
-        created_at: '2025-01-15T10:30:00.000Z',
+        created_at: '2025-01-15T10:30:00.000Z' as ISODateString,
         updated_at: null,
+        revision: 1,
       });
 
       expect(response.success).toBe(true);
-      expect(response.data.id).toBe('123');
+      expect(response.data.id).toBe('00000000-0000-4000-8000-000000000123');
     });
   });
 
@@ -353,12 +357,13 @@ describe('starter_types', () => {
 
     it('should be usable in History datetime field', () => {
       const history: History = {
-        id: '123',
-        user_id: 'user1',
-        datetime: '2025-01-15T10:30:00.000Z',
+        id: toHistoryId('00000000-0000-4000-8000-000000000123'),
+        user_id: toUserId('user1'),
+        datetime: '2025-01-15T10:30:00.000Z' as ISODateString,
         value: 100,
-        created_at: '2025-01-15T10:30:00.000Z',
+        created_at: '2025-01-15T10:30:00.000Z' as ISODateString,
         updated_at: null,
+        revision: 1,
       };
 
       expect(history.datetime).toBe('2025-01-15T10:30:00.000Z');
@@ -619,12 +624,13 @@ describe('starter_types', () => {
   describe('History with nullable field combinations', () => {
     it('should accept all nullable fields set to non-null', () => {
       const history: History = {
-        id: '1',
-        user_id: 'u1',
-        datetime: '2025-06-01T00:00:00.000Z',
+        id: toHistoryId('00000000-0000-4000-8000-000000000001'),
+        user_id: toUserId('u1'),
+        datetime: '2025-06-01T00:00:00.000Z' as ISODateString,
         value: 10,
-        created_at: '2025-06-01T00:00:00.000Z',
-        updated_at: '2025-06-02T00:00:00.000Z',
+        created_at: '2025-06-01T00:00:00.000Z' as ISODateString,
+        updated_at: '2025-06-02T00:00:00.000Z' as ISODateString,
+        revision: 1,
       };
 
       expect(history.created_at).not.toBeNull();
@@ -633,12 +639,13 @@ describe('starter_types', () => {
 
     it('should accept all nullable fields set to null', () => {
       const history: History = {
-        id: '2',
-        user_id: 'u2',
-        datetime: '2025-06-01T00:00:00.000Z',
+        id: toHistoryId('00000000-0000-4000-8000-000000000002'),
+        user_id: toUserId('u2'),
+        datetime: '2025-06-01T00:00:00.000Z' as ISODateString,
         value: 0,
         created_at: null,
         updated_at: null,
+        revision: 1,
       };
 
       expect(history.created_at).toBeNull();
@@ -647,12 +654,13 @@ describe('starter_types', () => {
 
     it('should accept mixed nullable fields', () => {
       const history: History = {
-        id: '3',
-        user_id: 'u3',
-        datetime: '2025-06-01T00:00:00.000Z',
+        id: toHistoryId('00000000-0000-4000-8000-000000000003'),
+        user_id: toUserId('u3'),
+        datetime: '2025-06-01T00:00:00.000Z' as ISODateString,
         value: 5,
-        created_at: '2025-06-01T00:00:00.000Z',
+        created_at: '2025-06-01T00:00:00.000Z' as ISODateString,
         updated_at: null,
+        revision: 1,
       };
 
       expect(history.created_at).not.toBeNull();
@@ -695,7 +703,7 @@ describe('starter_types', () => {
   describe('User type edge cases', () => {
     it('should accept empty string for email and display_name', () => {
       const user: User = {
-        firebase_uid: 'uid',
+        firebase_uid: toUserId('uid'),
         email: '',
         display_name: '',
         created_at: null,
@@ -801,10 +809,10 @@ describe('starter_types', () => {
   describe('Response helpers used with domain types', () => {
     it('should wrap a User in successResponse', () => {
       const user: User = {
-        firebase_uid: 'uid-abc',
+        firebase_uid: toUserId('uid-abc'),
         email: 'test@example.com',
         display_name: 'Test',
-        created_at: '2025-01-01T00:00:00.000Z',
+        created_at: '2025-01-01T00:00:00.000Z' as ISODateString,
         updated_at: null,
       };
       const response = successResponse(user);
@@ -816,20 +824,22 @@ describe('starter_types', () => {
     it('should wrap a History array in successResponse', () => {
       const histories: History[] = [
         {
-          id: '1',
-          user_id: 'u1',
-          datetime: '2025-01-01T00:00:00.000Z',
+          id: toHistoryId('00000000-0000-4000-8000-000000000001'),
+          user_id: toUserId('u1'),
+          datetime: '2025-01-01T00:00:00.000Z' as ISODateString,
           value: 10,
           created_at: null,
           updated_at: null,
+          revision: 1,
         },
         {
-          id: '2',
-          user_id: 'u1',
-          datetime: '2025-01-02T00:00:00.000Z',
+          id: toHistoryId('00000000-0000-4000-8000-000000000002'),
+          user_id: toUserId('u1'),
+          datetime: '2025-01-02T00:00:00.000Z' as ISODateString,
           value: 20,
           created_at: null,
           updated_at: null,
+          revision: 1,
         },
       ];
       const response = successResponse(histories);
@@ -851,17 +861,20 @@ describe('starter_types', () => {
     it('should type-guard a BaseResponse<History[]>', () => {
       const response: BaseResponse<History[]> = successResponse([
         {
-          id: '1',
-          user_id: 'u1',
-          datetime: '2025-01-01T00:00:00.000Z',
+          id: toHistoryId('00000000-0000-4000-8000-000000000001'),
+          user_id: toUserId('u1'),
+          datetime: '2025-01-01T00:00:00.000Z' as ISODateString,
           value: 5,
           created_at: null,
           updated_at: null,
+          revision: 1,
         },
       ]);
 
       if (isSuccessResponse(response)) {
-        expect(response.data[0].id).toBe('1');
+        expect(response.data[0].id).toBe(
+          '00000000-0000-4000-8000-000000000001'
+        );
       } else {
         expect.fail('Expected success response');
       }
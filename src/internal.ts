@@ -0,0 +1,35 @@
+// =============================================================================
+// Internal Helpers
+// =============================================================================
+//
+// Shared by the package's modules. Not re-exported from the index, so none
+// of this is public API.
+
+/** `true` for non-null, non-array objects, e.g. parsed JSON objects. */
+export function isPlainObject(
+  input: unknown
+): input is Record<string, unknown> {
+  return typeof input === 'object' && input !== null && !Array.isArray(input);
+}
+
+// The package targets plain ES2020 without DOM or Node typings, so the timer
+// globals are reached through a minimal structural type.
+const timers = globalThis as unknown as {
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+};
+
+/** Runs `callback` after `ms` milliseconds; see {@link cancelTimeout}. */
+export function scheduleTimeout(callback: () => void, ms: number): unknown {
+  return timers.setTimeout(callback, ms);
+}
+
+/** Cancels a timeout from {@link scheduleTimeout}, if it has not run. */
+export function cancelTimeout(handle: unknown): void {
+  timers.clearTimeout(handle);
+}
+
+/** Resolves after `ms` milliseconds. */
+export function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => scheduleTimeout(resolve, ms));
+}
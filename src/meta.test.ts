@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  errorResponse,
+  getResponseMeta,
+  paginatedResponse,
+  successResponse,
+  type ResponseMeta,
+} from './index.js';
+
+const meta: ResponseMeta = {
+  requestId: 'req_8f2c',
+  durationMs: 12.4,
+  apiVersion: '1.4.0',
+};
+
+describe('response builders with meta', () => {
+  it('should attach meta only when given', () => {
+    expect(successResponse(1, { meta })).toMatchObject({ data: 1, meta });
+    expect(successResponse(1)).not.toHaveProperty('meta');
+    expect(errorResponse('Oops')).not.toHaveProperty('meta');
+    expect(
+      paginatedResponse([], { limit: 20, hasMore: false, nextCursor: null })
+    ).not.toHaveProperty('meta');
+  });
+
+  it('should attach meta to plain, structured and paginated responses', () => {
+    expect(errorResponse('Oops', { meta })).toMatchObject({
+      success: false,
+      error: 'Oops',
+      meta,
+    });
+    expect(errorResponse('Oops', { meta })).not.toHaveProperty('code');
+    expect(errorResponse('Gone', { code: 'NOT_FOUND', meta })).toMatchObject({
+      code: 'NOT_FOUND',
+      meta,
+    });
+    expect(
+      paginatedResponse(
+        [1],
+        { limit: 20, hasMore: false, nextCursor: null },
+        { meta }
+      ).meta
+    ).toBe(meta);
+  });
+});
+
+describe('getResponseMeta', () => {
+  it('should return null when the response has no meta block', () => {
+    expect(getResponseMeta(successResponse(1))).toBeNull();
+    expect(
+      getResponseMeta({ success: true, meta: 'x' } as unknown as never)
+    ).toBeNull();
+  });
+
+  it('should read the meta block of built responses', () => {
+    expect(getResponseMeta(errorResponse('Oops', { meta }))).toEqual(meta);
+  });
+
+  it('should drop fields with the wrong type', () => {
+    const response = JSON.parse(
+      JSON.stringify({
+        success: true,
+        data: null,
+        meta: {
+          requestId: 42,
+          traceId: 'trace-1',
+          durationMs: 'slow',
+          extra: true,
+          deprecation: {
+            message: 'Use GET /history/stats',
+            sunset: '2026-01-01T00:00:00Z',
+            link: null,
+          },
+        },
+      })
+    );
+
+    expect(getResponseMeta(response)).toEqual({
+      traceId: 'trace-1',
+      deprecation: {
+        message: 'Use GET /history/stats',
+        sunset: '2026-01-01T00:00:00.000Z',
+      },
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import type { BaseResponse } from '@sudobility/types';
+import { isISODateString, toISODateString } from './dates.js';
+import { isPlainObject } from './internal.js';
+import type { ISODateString } from './types.js';
+
+// =============================================================================
+// Meta Types
+// =============================================================================
+
+/**
+ * Notice that the called endpoint or API version is deprecated.
+ *
+ * @example
+ * ```typescript
+ * const notice: DeprecationNotice = {
+ *   message: 'GET /history/total is replaced by GET /history/stats',
+ *   sunset: '2026-01-01T00:00:00.000Z',
+ *   link: 'https://docs.example.com/migrations/stats',
+ * };
+ * ```
+ */
+export interface DeprecationNotice {
+  /** Human-readable explanation and replacement */
+  message: string;
+  /** When the endpoint stops working, if scheduled */
+  sunset?: ISODateString;
+  /** Where to read more */
+  link?: string;
+}
+
+/**
+ * Optional diagnostics attached to a response envelope as `meta`.
+ *
+ * Every field is optional, and consumers that only read `success`, `data`
+ * and `error` can ignore the block entirely.
+ *
+ * @example
+ * ```typescript
+ * const meta: ResponseMeta = {
+ *   requestId: 'req_8f2c',
+ *   traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+ *   durationMs: 12.4,
+ *   apiVersion: '1.4.0',
+ * };
+ * ```
+ */
+export interface ResponseMeta {
+  /** Server-assigned id of this request, for correlating with logs */
+  requestId?: string;
+  /** Distributed trace id, e.g. a W3C trace-context trace id */
+  traceId?: string;
+  /** Server-side processing time in milliseconds */
+  durationMs?: number;
+  /** Version of the API that produced the response */
+  apiVersion?: string;
+  /** Set when the endpoint is deprecated */
+  deprecation?: DeprecationNotice;
+}
+
+/** Options shared by the response builders. */
+export interface ResponseOptions {
+  /** Diagnostics to attach as the envelope's `meta` block */
+  meta?: ResponseMeta;
+}
+
+// =============================================================================
+// Extraction
+// =============================================================================
+
+function parseDeprecation(input: unknown): DeprecationNotice | undefined {
+  if (!isPlainObject(input) || typeof input.message !== 'string') {
+    return undefined;
+  }
+  const notice: DeprecationNotice = { message: input.message };
+  if (isISODateString(input.sunset, { mode: 'lenient' })) {
+    notice.sunset = toISODateString(input.sunset);
+  }
+  if (typeof input.link === 'string') {
+    notice.link = input.link;
+  }
+  return notice;
+}
+
+/**
+ * Reads the `meta` block from any response envelope.
+ *
+ * The block is checked field by field, since it usually arrives over the
+ * wire: fields with the wrong type are dropped rather than trusted.
+ *
+ * @param response - Any response envelope
+ * @returns The well-typed meta fields, or `null` if the response has none
+ *
+ * @example
+ * ```typescript
+ * const response = await api.getHistory(id);
+ * if (!response.success) {
+ *   const meta = getResponseMeta(response);
+ *   reportError(response.error, { requestId: meta?.requestId });
+ * }
+ * ```
+ */
+export function getResponseMeta(
+  response: BaseResponse<unknown>
+): ResponseMeta | null {
+  const raw = (response as { meta?: unknown }).meta;
+  if (!isPlainObject(raw)) {
+    return null;
+  }
+
+  const meta: ResponseMeta = {};
+  if (typeof raw.requestId === 'string') meta.requestId = raw.requestId;
+  if (typeof raw.traceId === 'string') meta.traceId = raw.traceId;
+  if (typeof raw.durationMs === 'number' && Number.isFinite(raw.durationMs)) {
+    meta.durationMs = raw.durationMs;
+  }
+  if (typeof raw.apiVersion === 'string') meta.apiVersion = raw.apiVersion;
+  const deprecation = parseDeprecation(raw.deprecation);
+  if (deprecation) meta.deprecation = deprecation;
+  return meta;
+}
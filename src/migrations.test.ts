@@ -0,0 +1,222 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createMigrationRegistry,
+  historyMigrations,
+  MigrationError,
+  SCHEMA_VERSIONS,
+  toHistoryId,
+  toISODateString,
+  toUserId,
+  userMigrations,
+  type History,
+} from './index.js';
+
+const history: History = {
+  id: toHistoryId('3f2b8c1e-9d4a-4f6b-8e2c-7a1d5b9c0e4f'),
+  user_id: toUserId('uid123'),
+  datetime: toISODateString('2025-01-15T10:30:00.000Z'),
+  value: 42.5,
+  created_at: null,
+  updated_at: null,
+  revision: 1,
+};
+
+function isHistoryShape(data: unknown): data is History {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    'value' in data &&
+    'updated_at' in data
+  );
+}
+
+function reasonOf(run: () => unknown) {
+  try {
+    run();
+  } catch (error) {
+    return error instanceof MigrationError ? error.reason : error;
+  }
+  return undefined;
+}
+
+describe('createMigrationRegistry', () => {
+  function registry() {
+    const migrations = createMigrationRegistry('History', {
+      validate: isHistoryShape,
+      current: 3,
+      migrations: [
+        {
+          from: 1,
+          to: 2,
+          migrate: ({ amount, ...rest }) => ({ ...rest, value: amount }),
+        },
+      ],
+    });
+    migrations.registerMigration(2, 3, (data) => ({
+      ...data,
+      updated_at: data.updated_at ?? null,
+    }));
+    return migrations;
+  }
+
+  it('should upgrade old payloads step by step', () => {
+    const v1 = {
+      id: toHistoryId('3f2b8c1e-9d4a-4f6b-8e2c-7a1d5b9c0e4f'),
+      user_id: toUserId('uid123'),
+      datetime: '2025-01-15T10:30:00.000Z',
+      amount: 42.5,
+      created_at: null,
+      revision: 1,
+    };
+
+    expect(
+      registry().migrate({ type: 'History', schema_version: 1, data: v1 })
+    ).toEqual(history);
+  });
+
+  it('should return current payloads unchanged and tag new ones', () => {
+    const migrations = registry();
+    const payload = migrations.toPayload(history);
+
+    expect(payload).toEqual({
+      type: 'History',
+      schema_version: 3,
+      data: history,
+    });
+    expect(migrations.migrate(JSON.parse(JSON.stringify(payload)))).toEqual(
+      history
+    );
+  });
+
+  it('should reject future, unknown and malformed payloads', () => {
+    const migrations = createMigrationRegistry('History', {
+      validate: isHistoryShape,
+      current: 3,
+      migrations: [{ from: 2, to: 3, migrate: (data) => data }],
+    });
+    const at =
+      (schema_version: unknown, type = 'History') =>
+      () =>
+        migrations.migrate({ type, schema_version, data: {} });
+
+    expect(reasonOf(at(4))).toBe('future_version');
+    expect(reasonOf(at(1))).toBe('unknown_version');
+    expect(reasonOf(at(0))).toBe('invalid_payload');
+    expect(reasonOf(at('2'))).toBe('invalid_payload');
+    expect(reasonOf(at(3, 'User'))).toBe('invalid_payload');
+    expect(reasonOf(() => migrations.migrate(history))).toBe('invalid_payload');
+  });
+
+  it('should reject upgraded data that fails validation', () => {
+    const run = () =>
+      registry().migrate({
+        type: 'History',
+        schema_version: 2,
+        data: { amount: 42.5 },
+      });
+
+    expect(reasonOf(run)).toBe('invalid_payload');
+    expect(run).toThrow(expect.objectContaining({ version: 2 }));
+  });
+
+  it('should carry the payload version on errors', () => {
+    expect(() =>
+      historyMigrations.migrate({
+        type: 'History',
+        schema_version: 9,
+        data: {},
+      })
+    ).toThrow(expect.objectContaining({ name: 'MigrationError', version: 9 }));
+  });
+
+  it('should reject invalid registrations', () => {
+    const migrations = registry();
+
+    expect(() => migrations.registerMigration(1, 2, (d) => d)).toThrow(
+      RangeError
+    );
+    expect(() => migrations.registerMigration(3, 4, (d) => d)).toThrow(
+      RangeError
+    );
+    expect(() => migrations.registerMigration(2, 2, (d) => d)).toThrow(
+      RangeError
+    );
+    expect(() =>
+      createMigrationRegistry('User', { validate: isHistoryShape, current: 0 })
+    ).toThrow(RangeError);
+    expect(() =>
+      createMigrationRegistry('History', {
+        validate: isHistoryShape,
+        migrations: [{ from: 2, to: 1, migrate: (d) => d }],
+      })
+    ).toThrow(RangeError);
+  });
+});
+
+describe('package registries', () => {
+  it('should be at the current schema versions', () => {
+    expect(historyMigrations.current).toBe(SCHEMA_VERSIONS.History);
+    expect(userMigrations.toPayload).toBeTypeOf('function');
+    expect(
+      historyMigrations.migrate(historyMigrations.toPayload(history))
+    ).toEqual(history);
+  });
+
+  it('should start version 1 history at revision 1', () => {
+    const v1 = {
+      id: history.id,
+      user_id: history.user_id,
+      datetime: history.datetime,
+      value: history.value,
+      created_at: null,
+      updated_at: null,
+    };
+
+    expect(
+      historyMigrations.migrate({
+        type: 'History',
+        schema_version: 1,
+        data: v1,
+      })
+    ).toEqual(history);
+  });
+
+  it('should reject records that are not well-formed', () => {
+    const at =
+      (type: 'History' | 'User', data: Record<string, unknown>) => () =>
+        (type === 'History' ? historyMigrations : userMigrations).migrate({
+          type,
+          schema_version: 1,
+          data,
+        });
+
+    expect(reasonOf(at('History', { id: 'x' }))).toBe('invalid_payload');
+    expect(reasonOf(at('History', { ...history, datetime: 'soon' }))).toBe(
+      'invalid_payload'
+    );
+    expect(reasonOf(at('User', { firebase_uid: 'uid123' }))).toBe(
+      'invalid_payload'
+    );
+    expect(
+      userMigrations.migrate({
+        type: 'User',
+        schema_version: 1,
+        data: {
+          firebase_uid: 'uid123',
+          email: null,
+          display_name: 'Jane',
+          created_at: '2025-01-15T10:30:00.000Z',
+          updated_at: null,
+        },
+      })
+    ).toMatchObject({ firebase_uid: 'uid123' });
+  });
+
+  it('should be frozen with their steps declared', () => {
+    expect(Object.isFrozen(historyMigrations)).toBe(true);
+    expect(Object.isFrozen(userMigrations)).toBe(true);
+    expect(() =>
+      historyMigrations.registerMigration(1, 2, (data) => data)
+    ).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,313 @@
+import { isISODateString } from './dates.js';
+import { isHistoryId, isUserId } from './ids.js';
+import { isPlainObject } from './internal.js';
+import type { History, User } from './types.js';
+
+// =============================================================================
+// Payload Types
+// =============================================================================
+
+/** A domain type that clients persist, e.g. in offline storage. */
+export type PersistedType = 'History' | 'User';
+
+/**
+ * Current schema version of each persisted type. Bumped, together with a
+ * registered migration, whenever the type's shape changes.
+ */
+export const SCHEMA_VERSIONS: Readonly<Record<PersistedType, number>> = {
+  History: 2,
+  User: 1,
+};
+
+/**
+ * A persisted object tagged with its type and schema version.
+ *
+ * @typeParam T - The data type at the tagged version
+ *
+ * @example
+ * ```typescript
+ * const payload: VersionedPayload<History> = {
+ *   type: 'History',
+ *   schema_version: 1,
+ *   data: history,
+ * };
+ * ```
+ */
+export interface VersionedPayload<T = unknown> {
+  type: PersistedType;
+  /** Schema version of `data`, a positive integer */
+  schema_version: number;
+  data: T;
+}
+
+/** Upgrades data from one schema version to a later one. */
+export type Migration = (
+  data: Record<string, unknown>
+) => Record<string, unknown>;
+
+/** One registered step, from version `from` to version `to`. */
+export interface MigrationStep {
+  from: number;
+  to: number;
+  migrate: Migration;
+}
+
+/** Why {@link MigrationRegistry.migrate} rejected a payload. */
+export type MigrationErrorReason =
+  'invalid_payload' | 'unknown_version' | 'future_version';
+
+/**
+ * Thrown when a payload cannot be brought to the current schema version.
+ *
+ * A `future_version` payload was written by a newer app build; the usual
+ * response is to keep it and ask the user to update. The other reasons
+ * mean the payload is unusable and can be discarded.
+ */
+export class MigrationError extends Error {
+  /** Machine-readable cause */
+  readonly reason: MigrationErrorReason;
+  /** The payload's schema version, if it had a valid one */
+  readonly version: number | undefined;
+
+  constructor(reason: MigrationErrorReason, message: string, version?: number) {
+    super(message);
+    this.name = 'MigrationError';
+    this.reason = reason;
+    this.version = version;
+  }
+}
+
+/** Migrations for one persisted type. */
+export interface MigrationRegistry<T> {
+  /** The type this registry migrates */
+  readonly type: PersistedType;
+  /** The version `migrate` upgrades to */
+  readonly current: number;
+  /**
+   * Registers the step from version `from` to version `to`.
+   *
+   * @throws {RangeError} If the versions are not increasing integers up to
+   * `current`, or a step from `from` already exists
+   */
+  registerMigration(from: number, to: number, fn: Migration): void;
+  /**
+   * Upgrades a tagged payload to the current version, applying registered
+   * steps in order, and checks the result with the registry's `validate`.
+   *
+   * @throws {MigrationError} If the payload is malformed, of another type,
+   * at a version with no path to `current` or newer than it, or its data
+   * does not pass `validate` once upgraded
+   */
+  migrate(payload: unknown): T;
+  /** Tags data at the current version for storage. */
+  toPayload(data: T): VersionedPayload<T>;
+}
+
+/** Options for {@link createMigrationRegistry}. */
+export interface MigrationRegistryOptions<T> {
+  /** Checks data at the current version; `migrate` rejects data that fails */
+  validate: (data: unknown) => data is T;
+  /** The current schema version. Defaults to {@link SCHEMA_VERSIONS}`[type]`. */
+  current?: number;
+  /** Steps to register up front, as with `registerMigration` */
+  migrations?: readonly MigrationStep[];
+}
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+function isVersion(value: unknown): value is number {
+  return Number.isSafeInteger(value) && (value as number) >= 1;
+}
+
+/**
+ * Creates a migration registry for one persisted type.
+ *
+ * Migrations are steps keyed by their source version; `migrate` follows
+ * them from the payload's version until it reaches `current`. Versions
+ * without a step lead nowhere and are reported as `unknown_version`, and
+ * upgraded data that fails `validate` as `invalid_payload`.
+ *
+ * @param type - The persisted type
+ * @param options - The current-version check, and optionally the current
+ * version and initial steps
+ * @returns The registry, holding `options.migrations`
+ * @throws {RangeError} If `current` is not a positive integer, or a step in
+ * `options.migrations` is invalid
+ *
+ * @example
+ * ```typescript
+ * // isHistoryV3: the app's own (data: unknown) => data is History check
+ * const migrations = createMigrationRegistry<History>('History', {
+ *   validate: isHistoryV3,
+ *   current: 3,
+ *   migrations: [
+ *     { from: 1, to: 2, migrate: (data) => ({ ...data, note: null }) },
+ *     {
+ *       from: 2,
+ *       to: 3,
+ *       migrate: ({ amount, ...rest }) => ({ ...rest, value: amount }),
+ *     },
+ *   ],
+ * });
+ * const history = migrations.migrate(JSON.parse(stored));
+ * ```
+ */
+export function createMigrationRegistry<T>(
+  type: PersistedType,
+  options: MigrationRegistryOptions<T>
+): MigrationRegistry<T> {
+  const { validate, current = SCHEMA_VERSIONS[type] } = options;
+  if (!isVersion(current)) {
+    throw new RangeError('current must be a positive integer');
+  }
+  const steps = new Map<number, { to: number; fn: Migration }>();
+
+  const registry: MigrationRegistry<T> = {
+    type,
+    current,
+
+    registerMigration(from, to, fn) {
+      if (!isVersion(from) || !isVersion(to) || to <= from || to > current) {
+        throw new RangeError(
+          `Migration ${from} -> ${to} must go forward to at most version ${current}`
+        );
+      }
+      if (steps.has(from)) {
+        throw new RangeError(`A migration from version ${from} exists`);
+      }
+      steps.set(from, { to, fn });
+    },
+
+    migrate(payload) {
+      if (!isPlainObject(payload) || !isPlainObject(payload.data)) {
+        throw new MigrationError(
+          'invalid_payload',
+          'payload must be an object with object data'
+        );
+      }
+      if (payload.type !== type) {
+        throw new MigrationError(
+          'invalid_payload',
+          `payload type must be ${type}`
+        );
+      }
+      const version = payload.schema_version;
+      if (!isVersion(version)) {
+        throw new MigrationError(
+          'invalid_payload',
+          'schema_version must be a positive integer'
+        );
+      }
+      if (version > current) {
+        throw new MigrationError(
+          'future_version',
+          `${type} schema version ${version} is newer than ${current}`,
+          version
+        );
+      }
+
+      let data = payload.data;
+      let at = version;
+      while (at < current) {
+        const step = steps.get(at);
+        if (!step) {
+          throw new MigrationError(
+            'unknown_version',
+            `no migration from ${type} schema version ${at}`,
+            version
+          );
+        }
+        data = step.fn(data);
+        at = step.to;
+      }
+      if (!validate(data)) {
+        throw new MigrationError(
+          'invalid_payload',
+          `data is not a valid ${type} at schema version ${current}`,
+          version
+        );
+      }
+      return data;
+    },
+
+    toPayload(data) {
+      return { type, schema_version: current, data };
+    },
+  };
+
+  for (const step of options.migrations ?? []) {
+    registry.registerMigration(step.from, step.to, step.migrate);
+  }
+  return registry;
+}
+
+// =============================================================================
+// Package Registries
+// =============================================================================
+
+function isNullableDate(value: unknown): boolean {
+  return value === null || isISODateString(value);
+}
+
+function isNullableString(value: unknown): boolean {
+  return value === null || typeof value === 'string';
+}
+
+function isHistory(data: unknown): data is History {
+  return (
+    isPlainObject(data) &&
+    isHistoryId(data.id) &&
+    isUserId(data.user_id) &&
+    isISODateString(data.datetime) &&
+    typeof data.value === 'number' &&
+    Number.isFinite(data.value) &&
+    data.value > 0 &&
+    isNullableDate(data.created_at) &&
+    isNullableDate(data.updated_at) &&
+    isVersion(data.revision)
+  );
+}
+
+function isUser(data: unknown): data is User {
+  return (
+    isPlainObject(data) &&
+    isUserId(data.firebase_uid) &&
+    isNullableString(data.email) &&
+    isNullableString(data.display_name) &&
+    isNullableDate(data.created_at) &&
+    isNullableDate(data.updated_at)
+  );
+}
+
+/**
+ * Migrations for persisted {@link History} records, up to
+ * {@link SCHEMA_VERSIONS}`.History`. The package adds a step here whenever
+ * it changes the type's shape. Upgraded data must be a well-formed
+ * `History`, with valid ids and dates.
+ *
+ * - `1 -> 2` - adds `revision`, starting existing records at 1
+ *
+ * @example
+ * ```typescript
+ * await storage.setItem(key, JSON.stringify(historyMigrations.toPayload(h)));
+ * const history = historyMigrations.migrate(
+ *   JSON.parse(await storage.getItem(key))
+ * );
+ * ```
+ */
+export const historyMigrations: Readonly<MigrationRegistry<History>> =
+  Object.freeze(
+    createMigrationRegistry('History', {
+      validate: isHistory,
+      migrations: [
+        { from: 1, to: 2, migrate: (data) => ({ ...data, revision: 1 }) },
+      ],
+    })
+  );
+
+/** Migrations for persisted {@link User} records, as for `historyMigrations`. */
+export const userMigrations: Readonly<MigrationRegistry<User>> = Object.freeze(
+  createMigrationRegistry('User', { validate: isUser })
+);
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createOpenApiDocument,
+  OPENAPI_SECURITY_SCHEME,
+  STARTER_API_ROUTES,
+  STARTER_SCHEMA_DEFS,
+  type JsonSchema,
+} from './index.js';
+
+function collectRefs(value: unknown, refs: string[] = []): string[] {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectRefs(item, refs));
+  } else if (typeof value === 'object' && value !== null) {
+    for (const [key, child] of Object.entries(value)) {
+      if (key === '$ref' && typeof child === 'string') refs.push(child);
+      else collectRefs(child, refs);
+    }
+  }
+  return refs;
+}
+
+describe('createOpenApiDocument', () => {
+  const doc = createOpenApiDocument();
+
+  it('should describe every registered route', () => {
+    const operations = Object.entries(doc.paths).flatMap(([path, item]) =>
+      Object.keys(item).map((method) => `${method.toUpperCase()} ${path}`)
+    );
+
+    expect(operations.sort()).toEqual(
+      Object.values(STARTER_API_ROUTES)
+        .map((r) => `${r.method} ${r.path.replace(/:(\w+)/g, '{$1}')}`)
+        .sort()
+    );
+  });
+
+  it('should apply title, version and servers', () => {
+    const custom = createOpenApiDocument({
+      title: 'My API',
+      version: '2.0.0',
+      servers: [{ url: 'https://api.example.com' }],
+    });
+
+    expect(custom.openapi).toBe('3.1.0');
+    expect(custom.info).toEqual({ title: 'My API', version: '2.0.0' });
+    expect(custom.servers).toEqual([{ url: 'https://api.example.com' }]);
+    expect(doc.servers).toBeUndefined();
+  });
+
+  it('should require the Firebase bearer token on authenticated routes', () => {
+    expect(doc.components.securitySchemes[OPENAPI_SECURITY_SCHEME]).toEqual(
+      expect.objectContaining({ type: 'http', scheme: 'bearer' })
+    );
+    expect(doc.paths['/health'].get?.security).toEqual([]);
+    expect(doc.paths['/history'].get?.security).toEqual([
+      { [OPENAPI_SECURITY_SCHEME]: [] },
+    ]);
+    expect(doc.paths['/history'].get?.responses['401']).toBeDefined();
+    expect(doc.paths['/health'].get?.responses['401']).toBeUndefined();
+  });
+
+  it('should describe bodies, parameters and responses', () => {
+    const create = doc.paths['/history'].post!;
+    const update = doc.paths['/history/{id}'].patch!;
+    const list = doc.paths['/history'].get!;
+
+    expect(create.requestBody?.content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/HistoryCreateRequest',
+    });
+    expect(Object.keys(create.responses)).toEqual([
+      '201',
+      '400',
+      '401',
+      '422',
+      'default',
+    ]);
+    expect(update.parameters).toEqual([
+      {
+        name: 'id',
+        in: 'path',
+        required: true,
+        schema: { $ref: '#/components/schemas/HistoryId' },
+      },
+    ]);
+    expect(update.responses['409']).toEqual({
+      description: 'CONFLICT',
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/HistoryConflictResponse' },
+        },
+      },
+    });
+    expect(list.parameters?.map((p) => p.name)).toEqual(
+      Object.keys(STARTER_SCHEMA_DEFS.HistoryQuery.properties ?? {})
+    );
+    expect(
+      list.responses['200'].content?.['application/json'].schema.properties
+    ).toHaveProperty('pageInfo');
+  });
+
+  it('should resolve every reference against components', () => {
+    const schemas = doc.components.schemas as Record<string, JsonSchema>;
+    const refs = collectRefs(doc);
+
+    expect(refs.length).toBeGreaterThan(0);
+    for (const ref of refs) {
+      expect(ref).toMatch(/^#\/components\/schemas\//);
+      expect(schemas[ref.split('/').pop()!]).toBeDefined();
+    }
+  });
+
+  it('should be JSON-serializable', () => {
+    expect(JSON.parse(JSON.stringify(doc))).toEqual(doc);
+  });
+});
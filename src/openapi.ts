@@ -0,0 +1,422 @@
+import { ERROR_CODE_HTTP_STATUS, type ErrorCode } from './errors.js';
+import {
+  STARTER_API_ROUTES,
+  type HttpMethod,
+  type PathParamTypes,
+  type RouteDefinition,
+  type RouteKey,
+} from './routes.js';
+import {
+  JSON_SCHEMA_DIALECT,
+  STARTER_SCHEMA_DEFS,
+  paginatedSuccessResponseSchema,
+  successResponseSchema,
+  type JsonSchema,
+  type StarterSchemaName,
+} from './schemas.js';
+import { STARTER_API_CONTRACT_VERSION } from './version.js';
+
+// =============================================================================
+// OpenAPI Types
+// =============================================================================
+
+/** The OpenAPI version of documents produced by {@link createOpenApiDocument}. */
+export const OPENAPI_VERSION = '3.1.0';
+
+/** Name of the Firebase ID token security scheme in `components`. */
+export const OPENAPI_SECURITY_SCHEME = 'firebaseAuth';
+
+/** An operation parameter taken from the path or the query string. */
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+/** A request body or response payload keyed by media type. */
+export interface OpenApiContent {
+  [mediaType: string]: { schema: JsonSchema };
+}
+
+/** One response of an operation, keyed by status code in `responses`. */
+export interface OpenApiResponse {
+  description: string;
+  content?: OpenApiContent;
+}
+
+/** The JSON request body of an operation. */
+export interface OpenApiRequestBody {
+  required: boolean;
+  content: OpenApiContent;
+}
+
+/** A security requirement: scheme name to required scopes. */
+export type OpenApiSecurityRequirement = Record<string, string[]>;
+
+/** A single endpoint: one HTTP method on one path. */
+export interface OpenApiOperation {
+  operationId: string;
+  summary: string;
+  tags: string[];
+  parameters?: OpenApiParameter[];
+  requestBody?: OpenApiRequestBody;
+  responses: Record<string, OpenApiResponse>;
+  /** Empty for public endpoints, overriding any document-level default. */
+  security: OpenApiSecurityRequirement[];
+}
+
+/** Operations on one path, keyed by lower-case HTTP method. */
+export type OpenApiPathItem = Partial<
+  Record<Lowercase<HttpMethod>, OpenApiOperation>
+>;
+
+/** An HTTP bearer-token security scheme, as declared in `components`. */
+export interface OpenApiSecurityScheme {
+  type: 'http';
+  scheme: 'bearer';
+  bearerFormat?: string;
+  description?: string;
+}
+
+/** A base URL the API is served from. */
+export interface OpenApiServer {
+  url: string;
+  description?: string;
+}
+
+/**
+ * An OpenAPI 3.1 document.
+ *
+ * Only the fields this package emits are listed.
+ */
+export interface OpenApiDocument {
+  openapi: typeof OPENAPI_VERSION;
+  jsonSchemaDialect: typeof JSON_SCHEMA_DIALECT;
+  info: { title: string; version: string; description?: string };
+  servers?: OpenApiServer[];
+  tags: { name: string; description?: string }[];
+  paths: Record<string, OpenApiPathItem>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    securitySchemes: Record<string, OpenApiSecurityScheme>;
+  };
+}
+
+/** Options for {@link createOpenApiDocument}. */
+export interface OpenApiDocumentOptions {
+  /** Document title. Defaults to `'Starter API'`. */
+  title?: string;
+  /**
+   * API version reported in `info.version`. Defaults to
+   * {@link STARTER_API_CONTRACT_VERSION}.
+   */
+  version?: string;
+  description?: string;
+  servers?: OpenApiServer[];
+}
+
+// =============================================================================
+// Operation Metadata
+// =============================================================================
+
+/** Everything about an operation the route registry does not carry. */
+interface OperationSpec {
+  operationId: string;
+  summary: string;
+  tag: 'System' | 'Users' | 'History';
+  status: 200 | 201;
+  response: JsonSchema;
+  body?: StarterSchemaName;
+  query?: StarterSchemaName;
+  /** Expected failures besides UNAUTHORIZED, which auth routes always add. */
+  errors: ErrorCode[];
+  /** Failures whose body is more specific than `ErrorResponse`. */
+  errorBodies?: Partial<Record<ErrorCode, StarterSchemaName>>;
+}
+
+function ref(name: StarterSchemaName): JsonSchema {
+  return { $ref: `#/$defs/${name}` };
+}
+
+// Keyed by RouteKey so adding a route fails to compile until it is documented.
+const OPERATIONS: Record<RouteKey, OperationSpec> = {
+  'GET /': {
+    operationId: 'getApiInfo',
+    summary: 'Get API metadata',
+    tag: 'System',
+    status: 200,
+    response: successResponseSchema(ref('ApiInfoResponse')),
+    errors: [],
+  },
+  'GET /health': {
+    operationId: 'getHealth',
+    summary: 'Check service health',
+    tag: 'System',
+    status: 200,
+    response: successResponseSchema(ref('HealthResponse')),
+    errors: ['UNAVAILABLE'],
+  },
+  'GET /users/me': {
+    operationId: 'getCurrentUser',
+    summary: 'Get the authenticated user',
+    tag: 'Users',
+    status: 200,
+    response: successResponseSchema(ref('User')),
+    errors: ['NOT_FOUND'],
+  },
+  'GET /history': {
+    operationId: 'listHistories',
+    summary: 'List history records',
+    tag: 'History',
+    status: 200,
+    response: paginatedSuccessResponseSchema(ref('History')),
+    query: 'HistoryQuery',
+    errors: ['VALIDATION_FAILED'],
+  },
+  'POST /history': {
+    operationId: 'createHistory',
+    summary: 'Create a history record',
+    tag: 'History',
+    status: 201,
+    response: successResponseSchema(ref('History')),
+    body: 'HistoryCreateRequest',
+    errors: ['BAD_REQUEST', 'VALIDATION_FAILED'],
+  },
+  'POST /history/batch': {
+    operationId: 'batchHistory',
+    summary: 'Create, update and delete history records in one request',
+    tag: 'History',
+    status: 200,
+    response: successResponseSchema(ref('HistoryBatchResult')),
+    body: 'HistoryBatchRequest',
+    errors: ['BAD_REQUEST', 'VALIDATION_FAILED'],
+  },
+  'GET /history/total': {
+    operationId: 'getHistoryTotal',
+    summary: 'Sum the values of all history records',
+    tag: 'History',
+    status: 200,
+    response: successResponseSchema(ref('HistoryTotalResponse')),
+    query: 'HistoryTotalRequest',
+    errors: ['VALIDATION_FAILED'],
+  },
+  'GET /history/stats': {
+    operationId: 'getHistoryStats',
+    summary: 'Summarize the values of all history records',
+    tag: 'History',
+    status: 200,
+    response: successResponseSchema(ref('HistoryStatsResponse')),
+    errors: [],
+  },
+  'GET /history/:id': {
+    operationId: 'getHistory',
+    summary: 'Get a history record',
+    tag: 'History',
+    status: 200,
+    response: successResponseSchema(ref('History')),
+    errors: ['NOT_FOUND'],
+  },
+  'PATCH /history/:id': {
+    operationId: 'updateHistory',
+    summary: 'Update a history record',
+    tag: 'History',
+    status: 200,
+    response: successResponseSchema(ref('History')),
+    body: 'HistoryUpdateRequest',
+    errors: ['BAD_REQUEST', 'VALIDATION_FAILED', 'NOT_FOUND', 'CONFLICT'],
+    errorBodies: { CONFLICT: 'HistoryConflictResponse' },
+  },
+  'DELETE /history/:id': {
+    operationId: 'deleteHistory',
+    summary: 'Delete a history record',
+    tag: 'History',
+    status: 200,
+    response: successResponseSchema({ type: 'null' }),
+    errors: ['NOT_FOUND'],
+  },
+};
+
+// Keyed like PathParamTypes so a typed placeholder cannot go undocumented.
+const PATH_PARAMS: Record<keyof PathParamTypes, StarterSchemaName> = {
+  id: 'HistoryId',
+};
+
+const TAGS: OpenApiDocument['tags'] = [
+  { name: 'System', description: 'API metadata and health' },
+  { name: 'Users', description: 'The authenticated user account' },
+  { name: 'History', description: 'Per-user history records' },
+];
+
+// =============================================================================
+// Document Builder
+// =============================================================================
+
+/** Rewrites `#/$defs/` references to `#/components/schemas/`. */
+function toComponentRefs<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(toComponentRefs) as T;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  const result: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    result[key] =
+      key === '$ref' && typeof child === 'string'
+        ? child.replace(/^#\/\$defs\//, '#/components/schemas/')
+        : toComponentRefs(child);
+  }
+  return result as T;
+}
+
+function json(schema: JsonSchema): OpenApiContent {
+  return { 'application/json': { schema: toComponentRefs(schema) } };
+}
+
+function parametersOf(
+  route: RouteDefinition,
+  spec: OperationSpec
+): OpenApiParameter[] {
+  const parameters: OpenApiParameter[] = [];
+  for (const [, name] of route.path.matchAll(/:(\w+)/g)) {
+    parameters.push({
+      name,
+      in: 'path',
+      required: true,
+      schema:
+        name in PATH_PARAMS
+          ? toComponentRefs(ref(PATH_PARAMS[name as keyof PathParamTypes]))
+          : { type: 'string' },
+    });
+  }
+  if (spec.query) {
+    const query: JsonSchema = STARTER_SCHEMA_DEFS[spec.query];
+    for (const [name, property] of Object.entries(query.properties ?? {})) {
+      const { description, ...schema } = property;
+      parameters.push({
+        name,
+        in: 'query',
+        required: query.required?.includes(name) ?? false,
+        ...(typeof description === 'string' ? { description } : {}),
+        schema: toComponentRefs(schema),
+      });
+    }
+  }
+  return parameters;
+}
+
+function responsesOf(
+  route: RouteDefinition,
+  spec: OperationSpec
+): Record<string, OpenApiResponse> {
+  const responses: Record<string, OpenApiResponse> = {
+    [spec.status]: {
+      description: spec.status === 201 ? 'Created' : 'Success',
+      content: json(spec.response),
+    },
+  };
+
+  // OpenAPI allows one response per status, so codes sharing one are merged.
+  const codes: ErrorCode[] = route.auth
+    ? ['UNAUTHORIZED', ...spec.errors]
+    : spec.errors;
+  const byStatus = new Map<number, ErrorCode[]>();
+  for (const code of codes) {
+    const status = ERROR_CODE_HTTP_STATUS[code];
+    byStatus.set(status, [...(byStatus.get(status) ?? []), code]);
+  }
+  for (const [status, grouped] of [...byStatus].sort(([a], [b]) => a - b)) {
+    const bodies = [
+      ...new Set(
+        grouped.map((code) => spec.errorBodies?.[code] ?? 'ErrorResponse')
+      ),
+    ];
+    responses[status] = {
+      description: grouped.join(' or '),
+      content: json(
+        bodies.length === 1 ? ref(bodies[0]) : { anyOf: bodies.map(ref) }
+      ),
+    };
+  }
+  responses.default = {
+    description: 'Unexpected error',
+    content: json(ref('ErrorResponse')),
+  };
+  return responses;
+}
+
+/**
+ * Builds an OpenAPI 3.1 document describing every Starter API endpoint.
+ *
+ * Paths come from {@link STARTER_API_ROUTES} and component schemas from
+ * {@link STARTER_SCHEMA_DEFS}, so the document tracks the TypeScript types.
+ * Authenticated operations require a Firebase ID token as a bearer token.
+ *
+ * @param options - Document title, version, description and servers
+ * @returns A JSON-serializable OpenAPI document
+ *
+ * @example
+ * ```typescript
+ * app.get('/openapi.json', (c) =>
+ *   c.json(createOpenApiDocument({ servers: [{ url: 'https://api.example.com' }] }))
+ * );
+ * ```
+ */
+export function createOpenApiDocument(
+  options: OpenApiDocumentOptions = {}
+): OpenApiDocument {
+  const paths: Record<string, OpenApiPathItem> = {};
+
+  for (const [key, route] of Object.entries(STARTER_API_ROUTES) as [
+    RouteKey,
+    RouteDefinition,
+  ][]) {
+    const spec = OPERATIONS[key];
+    const parameters = parametersOf(route, spec);
+    const path = route.path.replace(/:(\w+)/g, '{$1}');
+    const method = route.method.toLowerCase() as Lowercase<HttpMethod>;
+
+    paths[path] = {
+      ...paths[path],
+      [method]: {
+        operationId: spec.operationId,
+        summary: spec.summary,
+        tags: [spec.tag],
+        ...(parameters.length > 0 ? { parameters } : {}),
+        ...(spec.body
+          ? { requestBody: { required: true, content: json(ref(spec.body)) } }
+          : {}),
+        responses: responsesOf(route, spec),
+        security: route.auth ? [{ [OPENAPI_SECURITY_SCHEME]: [] }] : [],
+      },
+    };
+  }
+
+  return {
+    openapi: OPENAPI_VERSION,
+    jsonSchemaDialect: JSON_SCHEMA_DIALECT,
+    info: {
+      title: options.title ?? 'Starter API',
+      version: options.version ?? STARTER_API_CONTRACT_VERSION,
+      ...(options.description !== undefined
+        ? { description: options.description }
+        : {}),
+    },
+    ...(options.servers ? { servers: options.servers } : {}),
+    tags: TAGS,
+    paths,
+    components: {
+      schemas: toComponentRefs(STARTER_SCHEMA_DEFS),
+      securitySchemes: {
+        [OPENAPI_SECURITY_SCHEME]: {
+          type: 'http',
+          scheme: 'bearer',
+          bearerFormat: 'JWT',
+          description: 'Firebase Authentication ID token',
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import {
+  paginateHistory,
+  paginatedResponse,
+  encodeHistoryCursor,
+  decodeHistoryCursor,
+  isSuccessResponse,
+  DEFAULT_PAGE_LIMIT,
+  MAX_PAGE_LIMIT,
+  toHistoryId,
+  type History,
+  type HistoryId,
+  type ISODateString,
+} from './index.js';
+import { makeHistory, testHistoryId } from './test/fixtures.js';
+
+const labelOf = (history: History) => history.id.slice(-1);
+
+const records: History[] = [
+  makeHistory({ id: testHistoryId('a'), datetime: '2025-01-01T00:00:00.000Z' }),
+  makeHistory({ id: testHistoryId('b'), datetime: '2025-01-03T00:00:00.000Z' }),
+  makeHistory({ id: testHistoryId('c'), datetime: '2025-01-02T00:00:00.000Z' }),
+  makeHistory({ id: testHistoryId('d'), datetime: '2025-01-02T00:00:00.000Z' }),
+  makeHistory({ id: testHistoryId('e'), datetime: '2025-01-04T00:00:00.000Z' }),
+];
+
+describe('history cursors', () => {
+  it('should round-trip through encode and decode', () => {
+    const cursor = {
+      datetime: '2025-01-15T10:30:00.000Z' as ISODateString,
+      id: toHistoryId('3f2b8c1e-9d4a-4f6b-8e2c-7a1d5b9c0e4f'),
+    };
+    const encoded = encodeHistoryCursor(cursor);
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeHistoryCursor(encoded)).toEqual(cursor);
+  });
+
+  it('should return null for malformed cursors', () => {
+    expect(decodeHistoryCursor('')).toBeNull();
+    expect(decodeHistoryCursor('not a cursor!')).toBeNull();
+    expect(decodeHistoryCursor('YWJj')).toBeNull();
+  });
+
+  it('should reject cursors whose datetime is not canonical', () => {
+    const encoded = encodeHistoryCursor({
+      datetime: 'March 7, 2025' as ISODateString,
+      id: toHistoryId('3f2b8c1e-9d4a-4f6b-8e2c-7a1d5b9c0e4f'),
+    });
+
+    expect(decodeHistoryCursor(encoded)).toBeNull();
+  });
+
+  it('should reject cursors whose id is not a history id', () => {
+    const encoded = encodeHistoryCursor({
+      datetime: '2025-01-15T10:30:00.000Z' as ISODateString,
+      id: 'hist-1' as HistoryId,
+    });
+
+    expect(decodeHistoryCursor(encoded)).toBeNull();
+  });
+});
+
+describe('paginateHistory', () => {
+  it('should order newest first with id tie-breaking', () => {
+    const page = paginateHistory(records);
+
+    expect(page.items.map(labelOf)).toEqual(['e', 'b', 'd', 'c', 'a']);
+    expect(page.pageInfo).toEqual({
+      limit: DEFAULT_PAGE_LIMIT,
+      hasMore: false,
+      nextCursor: null,
+      total: 5,
+    });
+  });
+
+  it('should walk every record exactly once across pages', () => {
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = paginateHistory(records, cursor, 2);
+      seen.push(...page.items.map(labelOf));
+      cursor = page.pageInfo.nextCursor;
+    } while (cursor !== null);
+
+    expect(seen).toEqual(['e', 'b', 'd', 'c', 'a']);
+  });
+
+  it('should split records sharing a datetime across pages', () => {
+    const first = paginateHistory(records, null, 3);
+    const second = paginateHistory(records, first.pageInfo.nextCursor, 3);
+
+    expect(first.items.map(labelOf)).toEqual(['e', 'b', 'd']);
+    expect(first.pageInfo.hasMore).toBe(true);
+    expect(second.items.map(labelOf)).toEqual(['c', 'a']);
+    expect(second.pageInfo.hasMore).toBe(false);
+  });
+
+  it('should stay stable when the cursor record is deleted', () => {
+    const first = paginateHistory(records, null, 2);
+    const remaining = records.filter((h) => labelOf(h) !== 'b');
+    const second = paginateHistory(remaining, first.pageInfo.nextCursor, 2);
+
+    expect(second.items.map(labelOf)).toEqual(['d', 'c']);
+  });
+
+  it('should not mutate the input array', () => {
+    const input = [...records];
+    paginateHistory(input, null, 2);
+
+    expect(input).toEqual(records);
+  });
+
+  it('should clamp limits above the maximum', () => {
+    expect(paginateHistory(records, null, 1000).pageInfo.limit).toBe(
+      MAX_PAGE_LIMIT
+    );
+  });
+
+  it('should reject invalid limits and cursors', () => {
+    expect(() => paginateHistory(records, null, 0)).toThrow(RangeError);
+    expect(() => paginateHistory(records, null, 1.5)).toThrow(RangeError);
+    expect(() => paginateHistory(records, 'garbage!')).toThrow(RangeError);
+  });
+
+  it('should return an empty page for an empty list', () => {
+    const page = paginateHistory([]);
+
+    expect(page.items).toEqual([]);
+    expect(page.pageInfo.hasMore).toBe(false);
+  });
+});
+
+describe('paginatedResponse', () => {
+  it('should wrap items and page info in a success envelope', () => {
+    const page = paginateHistory(records, null, 2);
+    const response = paginatedResponse(page.items, page.pageInfo);
+
+    expect(isSuccessResponse(response)).toBe(true);
+    expect(response.data).toHaveLength(2);
+    expect(response.pageInfo.nextCursor).toBe(page.pageInfo.nextCursor);
+    expect(Object.keys(response).sort()).toEqual([
+      'data',
+      'pageInfo',
+      'success',
+      'timestamp',
+    ]);
+  });
+});
@@ -0,0 +1,257 @@
+import type { BaseResponse } from '@sudobility/types';
+import { isISODateString } from './dates.js';
+import { isHistoryId } from './ids.js';
+import type { History, HistoryId, ISODateString } from './types.js';
+
+// =============================================================================
+// Pagination Types
+// =============================================================================
+
+/** Page size used when a list request does not specify `limit`. */
+export const DEFAULT_PAGE_LIMIT = 20;
+
+/** Largest page size a list request may ask for; larger values are clamped. */
+export const MAX_PAGE_LIMIT = 100;
+
+/**
+ * Cursor pagination metadata for a single page of results.
+ *
+ * @example
+ * ```typescript
+ * const pageInfo: PageInfo = {
+ *   limit: 20,
+ *   hasMore: true,
+ *   nextCursor: 'MjAyNS0wMS0xNVQxMDozMDowMC4wMDBa...',
+ *   total: 57,
+ * };
+ * ```
+ */
+export interface PageInfo {
+  /** Maximum number of items in this page */
+  limit: number;
+  /** Whether more items exist after this page */
+  hasMore: boolean;
+  /** Opaque cursor for the next page, `null` when `hasMore` is `false` */
+  nextCursor: string | null;
+  /** Total number of items across all pages, when cheaply known */
+  total?: number;
+}
+
+/**
+ * A page of items together with its {@link PageInfo}.
+ *
+ * @typeParam T - The item type
+ */
+export interface Page<T> {
+  /** The items in this page, in list order */
+  items: T[];
+  /** Pagination metadata */
+  pageInfo: PageInfo;
+}
+
+/**
+ * Response envelope for list endpoints such as `GET /history`.
+ *
+ * `data` holds the page items, and `pageInfo` sits next to it in the envelope
+ * so consumers that only read `success`/`data` keep working.
+ *
+ * @typeParam T - The item type
+ *
+ * @example
+ * ```typescript
+ * const response: PaginatedResponse<History> = {
+ *   success: true,
+ *   data: [history],
+ *   pageInfo: { limit: 20, hasMore: false, nextCursor: null },
+ *   timestamp: '2025-01-15T10:30:00.000Z',
+ * };
+ * ```
+ */
+export interface PaginatedResponse<T> extends BaseResponse<T[]> {
+  /** Pagination metadata */
+  pageInfo: PageInfo;
+}
+
+/**
+ * Decoded position in the history list: the sort key of the last item on the
+ * previous page. `id` breaks ties between records sharing a `datetime`.
+ */
+export interface HistoryCursor {
+  /** `datetime` of the last item already returned */
+  datetime: ISODateString;
+  /** `id` of the last item already returned */
+  id: HistoryId;
+}
+
+// =============================================================================
+// Cursor Encoding
+// =============================================================================
+
+const BASE64URL_ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+// Base64url over ASCII only; callers percent-encode first so any Unicode
+// survives without relying on btoa/Buffer being available.
+function toBase64Url(ascii: string): string {
+  let output = '';
+  for (let i = 0; i < ascii.length; i += 3) {
+    const a = ascii.charCodeAt(i);
+    const b = ascii.charCodeAt(i + 1);
+    const c = ascii.charCodeAt(i + 2);
+    const triple = (a << 16) | ((b || 0) << 8) | (c || 0);
+    output += BASE64URL_ALPHABET[(triple >> 18) & 63];
+    output += BASE64URL_ALPHABET[(triple >> 12) & 63];
+    if (i + 1 < ascii.length) output += BASE64URL_ALPHABET[(triple >> 6) & 63];
+    if (i + 2 < ascii.length) output += BASE64URL_ALPHABET[triple & 63];
+  }
+  return output;
+}
+
+function fromBase64Url(encoded: string): string | null {
+  if (encoded.length % 4 === 1) {
+    return null;
+  }
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const char of encoded) {
+    const index = BASE64URL_ALPHABET.indexOf(char);
+    if (index === -1) {
+      return null;
+    }
+    buffer = (buffer << 6) | index;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      output += String.fromCharCode((buffer >> bits) & 0xff);
+    }
+  }
+  return output;
+}
+
+/**
+ * Encodes a history list position as an opaque, URL-safe cursor string.
+ *
+ * Clients must treat the result as opaque and only pass it back unchanged.
+ *
+ * @param cursor - The sort key of the last item already returned
+ * @returns A base64url cursor string
+ *
+ * @example
+ * ```typescript
+ * const next = encodeHistoryCursor({ datetime: last.datetime, id: last.id });
+ * ```
+ */
+export function encodeHistoryCursor(cursor: HistoryCursor): string {
+  return toBase64Url(
+    encodeURIComponent(JSON.stringify([cursor.datetime, cursor.id]))
+  );
+}
+
+/**
+ * Decodes a cursor produced by {@link encodeHistoryCursor}.
+ *
+ * @param cursor - The opaque cursor string
+ * @returns The decoded position, or `null` if the cursor is malformed
+ */
+export function decodeHistoryCursor(cursor: string): HistoryCursor | null {
+  const ascii = fromBase64Url(cursor);
+  if (ascii === null) {
+    return null;
+  }
+  try {
+    const parsed: unknown = JSON.parse(decodeURIComponent(ascii));
+    if (
+      Array.isArray(parsed) &&
+      parsed.length === 2 &&
+      isISODateString(parsed[0]) &&
+      isHistoryId(parsed[1])
+    ) {
+      return { datetime: parsed[0], id: parsed[1] };
+    }
+  } catch {
+    // Fall through: not percent-encoded JSON.
+  }
+  return null;
+}
+
+// =============================================================================
+// In-memory Pagination
+// =============================================================================
+
+/**
+ * Orders history records newest first, breaking `datetime` ties by `id`
+ * descending, which is the list order of `GET /history`.
+ */
+function compareHistoryDesc(
+  a: Pick<History, 'datetime' | 'id'>,
+  b: Pick<History, 'datetime' | 'id'>
+): number {
+  const byTime = Date.parse(b.datetime) - Date.parse(a.datetime);
+  if (byTime !== 0) {
+    return byTime;
+  }
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+/**
+ * Returns one page of history records using the same cursor semantics as
+ * `GET /history`, for tests and local stubs.
+ *
+ * Records are ordered newest first by `(datetime, id)`, so pages are stable
+ * even when several records share a `datetime`. The input array is not
+ * mutated.
+ *
+ * @param records - All history records visible to the caller, in any order
+ * @param cursor - The `nextCursor` of the previous page, or `null`/`undefined` for the first page
+ * @param limit - Page size; defaults to {@link DEFAULT_PAGE_LIMIT} and is clamped to {@link MAX_PAGE_LIMIT}
+ * @returns The requested page
+ * @throws {RangeError} If the cursor is malformed or `limit` is not a positive integer
+ *
+ * @example
+ * ```typescript
+ * const first = paginateHistory(records, null, 2);
+ * const second = paginateHistory(records, first.pageInfo.nextCursor, 2);
+ * ```
+ */
+export function paginateHistory(
+  records: readonly History[],
+  cursor?: string | null,
+  limit: number = DEFAULT_PAGE_LIMIT
+): Page<History> {
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new RangeError(`limit must be a positive integer, got ${limit}`);
+  }
+  const pageSize = Math.min(limit, MAX_PAGE_LIMIT);
+
+  let after: HistoryCursor | null = null;
+  if (cursor !== null && cursor !== undefined) {
+    after = decodeHistoryCursor(cursor);
+    if (after === null) {
+      throw new RangeError('Invalid pagination cursor');
+    }
+  }
+
+  const sorted = [...records].sort(compareHistoryDesc);
+  const start =
+    after === null
+      ? 0
+      : sorted.findIndex((record) => compareHistoryDesc(after, record) < 0);
+  const remaining = start === -1 ? [] : sorted.slice(start);
+  const items = remaining.slice(0, pageSize);
+  const hasMore = remaining.length > pageSize;
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    pageInfo: {
+      limit: pageSize,
+      hasMore,
+      nextCursor:
+        hasMore && last
+          ? encodeHistoryCursor({ datetime: last.datetime, id: last.id })
+          : null,
+      total: records.length,
+    },
+  };
+}
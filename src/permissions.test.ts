@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import {
+  accessDeniedResponse,
+  can,
+  principalFromClaims,
+  toHistoryId,
+  toISODateString,
+  toUserId,
+  type History,
+  type Principal,
+} from './index.js';
+
+const history: History = {
+  id: toHistoryId('3f2b8c1e-9d4a-4f6b-8e2c-7a1d5b9c0e4f'),
+  user_id: toUserId('uid123'),
+  datetime: toISODateString('2025-01-15T10:30:00.000Z'),
+  value: 42.5,
+  created_at: null,
+  updated_at: null,
+  revision: 1,
+};
+
+const owner: Principal = { uid: toUserId('uid123'), roles: ['user'] };
+const other: Principal = { uid: toUserId('uid456'), roles: ['user'] };
+const admin: Principal = { uid: toUserId('admin1'), roles: ['admin'] };
+
+describe('can', () => {
+  it('should let users act on their own history only', () => {
+    expect(can(owner, 'history:update', history)).toMatchObject({
+      allowed: true,
+      reason: 'owner',
+    });
+    expect(can(other, 'history:read', history)).toEqual({
+      allowed: false,
+      action: 'history:read',
+      reason: 'not_owner',
+      message: 'history:read is only allowed on your own resources',
+    });
+    expect(can(other, 'history:create')).toMatchObject({
+      allowed: true,
+      reason: 'granted',
+    });
+  });
+
+  it('should let admins act on any resource', () => {
+    expect(can(admin, 'history:delete', history)).toMatchObject({
+      allowed: true,
+      reason: 'granted_any',
+    });
+    expect(
+      can(admin, 'user:update', {
+        firebase_uid: toUserId('uid123'),
+      })
+    ).toMatchObject({ allowed: true });
+  });
+
+  it('should check user ownership by firebase_uid', () => {
+    expect(
+      can(owner, 'user:read', { firebase_uid: toUserId('uid123') }).allowed
+    ).toBe(true);
+    expect(
+      can(other, 'user:read', { firebase_uid: toUserId('uid123') }).reason
+    ).toBe('not_owner');
+  });
+
+  it('should honor explicit permissions and deny without them', () => {
+    const support: Principal = {
+      uid: toUserId('support1'),
+      roles: [],
+      permissions: ['history:read:any'],
+    };
+
+    expect(can(support, 'history:read', history).allowed).toBe(true);
+    expect(can(support, 'history:delete', history).reason).toBe(
+      'missing_permission'
+    );
+    expect(can(null, 'history:read').reason).toBe('unauthenticated');
+  });
+});
+
+describe('principalFromClaims', () => {
+  it('should read roles and permissions from custom claims', () => {
+    expect(
+      principalFromClaims({
+        uid: 'admin1',
+        email: 'admin@example.com',
+        roles: ['admin', 'superuser'],
+        permissions: ['user:read:any', 'everything'],
+      })
+    ).toEqual({
+      uid: 'admin1',
+      roles: ['admin'],
+      permissions: ['user:read:any'],
+    });
+  });
+
+  it('should default to the user role and fall back to sub', () => {
+    expect(principalFromClaims({ sub: 'uid123', roles: 'admin' })).toEqual({
+      uid: 'uid123',
+      roles: ['user'],
+    });
+    expect(principalFromClaims({ email: 'x@example.com' })).toBeNull();
+    expect(principalFromClaims(null)).toBeNull();
+  });
+});
+
+describe('accessDeniedResponse', () => {
+  it('should map denials to FORBIDDEN or UNAUTHORIZED', () => {
+    expect(
+      accessDeniedResponse(can(other, 'history:read', history))
+    ).toMatchObject({
+      success: false,
+      code: 'FORBIDDEN',
+      details: { action: 'history:read', reason: 'not_owner' },
+    });
+    expect(accessDeniedResponse(can(null, 'user:read')).code).toBe(
+      'UNAUTHORIZED'
+    );
+  });
+
+  it('should attach meta when given', () => {
+    expect(
+      accessDeniedResponse(can(null, 'user:read'), {
+        meta: { requestId: 'req-1' },
+      }).meta
+    ).toEqual({ requestId: 'req-1' });
+  });
+
+  it('should refuse allowed decisions', () => {
+    expect(() => accessDeniedResponse(can(admin, 'user:read'))).toThrow(
+      RangeError
+    );
+  });
+});
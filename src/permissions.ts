@@ -0,0 +1,292 @@
+import type { StructuredErrorResponse } from './errors.js';
+import { isUserId } from './ids.js';
+import { isPlainObject } from './internal.js';
+import type { ResponseOptions } from './meta.js';
+import { errorResponse } from './responses.js';
+import type { History, User, UserId } from './types.js';
+
+// =============================================================================
+// Role and Permission Types
+// =============================================================================
+
+/**
+ * Role assigned to a user through Firebase custom claims.
+ *
+ * - `user` - may act on their own profile and history
+ * - `admin` - may act on any user's profile and history
+ */
+export type Role = 'user' | 'admin';
+
+/** Every known {@link Role}. */
+export const ROLES: readonly Role[] = ['user', 'admin'];
+
+/** Something a principal can attempt, as `<resource>:<verb>`. */
+export type Action =
+  | 'history:read'
+  | 'history:create'
+  | 'history:update'
+  | 'history:delete'
+  | 'user:read'
+  | 'user:update';
+
+/** Every known {@link Action}. */
+export const ACTIONS: readonly Action[] = [
+  'history:read',
+  'history:create',
+  'history:update',
+  'history:delete',
+  'user:read',
+  'user:update',
+];
+
+/**
+ * A grant to perform an action. The bare action applies to resources the
+ * principal owns; the `:any` form applies to every resource.
+ */
+export type Permission = Action | `${Action}:any`;
+
+/** Permissions implied by each role. */
+export const ROLE_PERMISSIONS: Readonly<Record<Role, readonly Permission[]>> = {
+  user: ACTIONS,
+  admin: ACTIONS.map((action): Permission => `${action}:any`),
+};
+
+/**
+ * Custom claims this API sets on Firebase ID tokens, e.g. with
+ * `admin.auth().setCustomUserClaims(uid, claims)`.
+ */
+export interface StarterCustomClaims {
+  /** Roles of the user; a token without roles is treated as `['user']` */
+  roles?: Role[];
+  /** Grants beyond those implied by the roles */
+  permissions?: Permission[];
+}
+
+/**
+ * The fields of a decoded Firebase ID token this package reads, with the
+ * custom claims at the top level as Firebase places them.
+ *
+ * @example
+ * ```typescript
+ * const claims: StarterIdTokenClaims = await admin.auth().verifyIdToken(token);
+ * const principal = principalFromClaims(claims);
+ * ```
+ */
+export interface StarterIdTokenClaims extends StarterCustomClaims {
+  /** Firebase Authentication UID */
+  uid: string;
+  email?: string;
+  email_verified?: boolean;
+}
+
+/** The authenticated caller a policy decision is made for. */
+export interface Principal {
+  /** Firebase Authentication UID */
+  uid: UserId;
+  roles: readonly Role[];
+  /** Grants beyond those implied by the roles */
+  permissions?: readonly Permission[];
+}
+
+/** Why {@link can} allowed or denied an action. */
+export type AccessReason =
+  | 'owner'
+  | 'granted'
+  | 'granted_any'
+  | 'unauthenticated'
+  | 'missing_permission'
+  | 'not_owner';
+
+/**
+ * Outcome of {@link can}.
+ *
+ * @example
+ * ```typescript
+ * const decision: AccessDecision = {
+ *   allowed: false,
+ *   action: 'history:update',
+ *   reason: 'not_owner',
+ *   message: 'history:update is only allowed on your own resources',
+ * };
+ * ```
+ */
+export interface AccessDecision {
+  allowed: boolean;
+  action: Action;
+  reason: AccessReason;
+  /** Human-readable explanation, suitable for an error response */
+  message: string;
+}
+
+/** A resource {@link can} checks ownership of. */
+export type PolicyResource =
+  Pick<History, 'user_id'> | Pick<User, 'firebase_uid'>;
+
+// =============================================================================
+// Claims
+// =============================================================================
+
+function isPermission(value: unknown): value is Permission {
+  return (
+    typeof value === 'string' &&
+    ACTIONS.includes(value.replace(/:any$/, '') as Action)
+  );
+}
+
+/**
+ * Builds a {@link Principal} from decoded ID token claims.
+ *
+ * Claims arrive from outside the type system, so they are checked: unknown
+ * roles and permissions are dropped, and a token without any known role
+ * gets `['user']`.
+ *
+ * @param claims - Decoded token claims, e.g. from `verifyIdToken`
+ * @returns The principal, or `null` if the claims carry no valid UID
+ *
+ * @example
+ * ```typescript
+ * const principal = principalFromClaims(await auth.verifyIdToken(token));
+ * ```
+ */
+export function principalFromClaims(claims: unknown): Principal | null {
+  if (!isPlainObject(claims)) {
+    return null;
+  }
+  const uid = claims.uid ?? claims.sub;
+  if (!isUserId(uid)) {
+    return null;
+  }
+  const roles = Array.isArray(claims.roles)
+    ? ROLES.filter((role) => (claims.roles as unknown[]).includes(role))
+    : [];
+  const principal: Principal = {
+    uid,
+    roles: roles.length > 0 ? roles : ['user'],
+  };
+  if (Array.isArray(claims.permissions)) {
+    principal.permissions = claims.permissions.filter(isPermission);
+  }
+  return principal;
+}
+
+// =============================================================================
+// Policy
+// =============================================================================
+
+function ownerOf(resource: PolicyResource): string {
+  return 'user_id' in resource ? resource.user_id : resource.firebase_uid;
+}
+
+/**
+ * Decides whether a principal may perform an action.
+ *
+ * The principal's grants are the permissions of its roles plus its own
+ * `permissions`. An `<action>:any` grant allows the action on every
+ * resource. A bare `<action>` grant allows it on resources the principal
+ * owns (a `History` whose `user_id`, or a `User` whose `firebase_uid`, is
+ * the principal's UID), and without a resource, e.g. for creates and
+ * listing one's own records.
+ *
+ * @param principal - The caller, or `null` if unauthenticated
+ * @param action - What the caller attempts
+ * @param resource - The record acted on, if any
+ * @returns The decision and the reason for it
+ *
+ * @example
+ * ```typescript
+ * const decision = can(principal, 'history:update', history);
+ * if (!decision.allowed) {
+ *   return c.json(accessDeniedResponse(decision), 403);
+ * }
+ * ```
+ */
+export function can(
+  principal: Principal | null,
+  action: Action,
+  resource?: PolicyResource
+): AccessDecision {
+  if (!principal) {
+    return {
+      allowed: false,
+      action,
+      reason: 'unauthenticated',
+      message: `${action} requires authentication`,
+    };
+  }
+
+  const granted = new Set<Permission>(principal.permissions);
+  for (const role of principal.roles) {
+    ROLE_PERMISSIONS[role].forEach((permission) => granted.add(permission));
+  }
+
+  if (granted.has(`${action}:any`)) {
+    return {
+      allowed: true,
+      action,
+      reason: 'granted_any',
+      message: `${action} is allowed on any resource`,
+    };
+  }
+  if (!granted.has(action)) {
+    return {
+      allowed: false,
+      action,
+      reason: 'missing_permission',
+      message: `${action} is not permitted`,
+    };
+  }
+  if (!resource) {
+    return {
+      allowed: true,
+      action,
+      reason: 'granted',
+      message: `${action} is allowed`,
+    };
+  }
+  return ownerOf(resource) === principal.uid
+    ? {
+        allowed: true,
+        action,
+        reason: 'owner',
+        message: `${action} is allowed on your own resources`,
+      }
+    : {
+        allowed: false,
+        action,
+        reason: 'not_owner',
+        message: `${action} is only allowed on your own resources`,
+      };
+}
+
+/**
+ * Builds the error response for a denied decision: `UNAUTHORIZED` without
+ * a principal, `FORBIDDEN` otherwise, with the action and reason in
+ * `details`.
+ *
+ * Servers that hide the existence of other users' records can answer
+ * `not_owner` with `NOT_FOUND` instead, as the reference API does.
+ *
+ * @param decision - A decision from {@link can}
+ * @param options - Optional response metadata
+ * @returns The structured error response
+ * @throws {RangeError} If the decision allowed the action
+ *
+ * @example
+ * ```typescript
+ * const response = accessDeniedResponse(decision);
+ * return c.json(response, ERROR_CODE_HTTP_STATUS[response.code]);
+ * ```
+ */
+export function accessDeniedResponse(
+  decision: AccessDecision,
+  options: ResponseOptions = {}
+): StructuredErrorResponse<'UNAUTHORIZED' | 'FORBIDDEN'> {
+  if (decision.allowed) {
+    throw new RangeError('decision allows the action');
+  }
+  return errorResponse(decision.message, {
+    code: decision.reason === 'unauthenticated' ? 'UNAUTHORIZED' : 'FORBIDDEN',
+    details: { action: decision.action, reason: decision.reason },
+    ...options,
+  });
+}
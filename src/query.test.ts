@@ -0,0 +1,231 @@
+import { describe, it, expect } from 'vitest';
+import { createURLSearchParams } from '@sudobility/types';
+import {
+  serializeHistoryQuery,
+  parseHistoryQuery,
+  parseHistoryTotalRequest,
+  serializeHistoryTotalRequest,
+  matchesHistoryQuery,
+  toHistoryId,
+  toISODateString,
+  toUserId,
+  type History,
+  type HistoryQuery,
+  type HistoryTotalRequest,
+} from './index.js';
+import { codesOf } from './test/fixtures.js';
+
+const history: History = {
+  id: toHistoryId('3f2b8c1e-9d4a-4f6b-8e2c-7a1d5b9c0e4f'),
+  user_id: toUserId('uid123'),
+  datetime: toISODateString('2025-01-15T10:30:00.000Z'),
+  value: 42.5,
+  created_at: null,
+  updated_at: null,
+  revision: 1,
+};
+
+describe('serializeHistoryQuery', () => {
+  it('should write parameters in a fixed order and skip undefined', () => {
+    expect(
+      serializeHistoryQuery({ order: 'asc', min_value: 10, to: undefined })
+    ).toBe('min_value=10&order=asc');
+  });
+
+  it('should return an empty string for an empty query', () => {
+    expect(serializeHistoryQuery({})).toBe('');
+  });
+
+  it('should write numbers in plain decimal notation', () => {
+    expect(serializeHistoryQuery({ min_value: 1e-7, max_value: 1.5e21 })).toBe(
+      'min_value=0.0000001&max_value=1500000000000000000000'
+    );
+  });
+});
+
+describe('parseHistoryQuery', () => {
+  it('should round-trip a full query', () => {
+    const query: HistoryQuery = {
+      from: toISODateString('2025-01-01T00:00:00Z'),
+      to: toISODateString('2025-02-01T00:00:00Z'),
+      min_value: 0.5,
+      max_value: 100,
+      sort: 'datetime',
+      order: 'desc',
+      limit: 50,
+      cursor: 'abc_-123',
+    };
+
+    expect(parseHistoryQuery(serializeHistoryQuery(query))).toEqual({
+      valid: true,
+      value: query,
+    });
+  });
+
+  it('should accept a leading question mark and search params objects', () => {
+    expect(parseHistoryQuery('?limit=5')).toEqual({
+      valid: true,
+      value: { limit: 5 },
+    });
+    expect(parseHistoryQuery(createURLSearchParams('sort=datetime'))).toEqual({
+      valid: true,
+      value: { sort: 'datetime' },
+    });
+  });
+
+  it('should normalize lenient datetimes to canonical UTC', () => {
+    const result = parseHistoryQuery(
+      `from=${encodeURIComponent('2025-01-01T02:00+02:00')}`
+    );
+
+    expect(result.valid && result.value.from).toBe('2025-01-01T00:00:00.000Z');
+  });
+
+  it('should report invalid parameters', () => {
+    const result = parseHistoryQuery(
+      'from=yesterday&min_value=abc&max_value=&sort=id&order=up&limit=0'
+    );
+
+    expect(codesOf(result)).toEqual([
+      'from:invalid_date',
+      'min_value:invalid_number',
+      'max_value:invalid_number',
+      'sort:invalid_value',
+      'order:invalid_value',
+      'limit:invalid_value',
+    ]);
+  });
+
+  it('should only accept plain decimal numbers', () => {
+    for (const raw of ['0x10', '0b1', '0o7', '1e3', ' 5', 'Infinity']) {
+      expect(
+        codesOf(parseHistoryQuery(`min_value=${encodeURIComponent(raw)}`)),
+        raw
+      ).toEqual(['min_value:invalid_number']);
+    }
+    expect(parseHistoryQuery('min_value=-.5&max_value=10.')).toEqual({
+      valid: true,
+      value: { min_value: -0.5, max_value: 10 },
+    });
+    expect(
+      parseHistoryQuery(serializeHistoryQuery({ min_value: 1e-7 }))
+    ).toEqual({ valid: true, value: { min_value: 1e-7 } });
+  });
+
+  it('should reject non-integer and oversized limits', () => {
+    expect(codesOf(parseHistoryQuery('limit=2.5'))).toEqual([
+      'limit:invalid_value',
+    ]);
+    expect(codesOf(parseHistoryQuery('limit=1000'))).toEqual([
+      'limit:invalid_value',
+    ]);
+  });
+
+  it('should reject inverted ranges', () => {
+    const result = parseHistoryQuery(
+      'from=2025-02-01T00:00:00.000Z&to=2025-01-01T00:00:00.000Z&min_value=5&max_value=1'
+    );
+
+    expect(codesOf(result)).toEqual([
+      'from:invalid_range',
+      'min_value:invalid_range',
+    ]);
+  });
+
+  it('should only accept a cursor with the default order', () => {
+    expect(codesOf(parseHistoryQuery('sort=value&cursor=abc'))).toEqual([
+      'cursor:invalid_value',
+    ]);
+    expect(codesOf(parseHistoryQuery('order=asc&cursor=abc'))).toEqual([
+      'cursor:invalid_value',
+    ]);
+  });
+
+  it('should reject unknown parameters', () => {
+    expect(codesOf(parseHistoryQuery('user_id=uid123'))).toEqual([
+      'user_id:unknown_field',
+    ]);
+  });
+});
+
+describe('HistoryTotalRequest query strings', () => {
+  it('should round-trip bounds and presets', () => {
+    const bounded: HistoryTotalRequest = {
+      from: toISODateString('2025-01-01T00:00:00Z'),
+      to: toISODateString('2025-02-01T00:00:00Z'),
+    };
+    const preset: HistoryTotalRequest = {
+      preset: 'this_week',
+      time_zone: 'Europe/Berlin',
+    };
+
+    expect(serializeHistoryTotalRequest(preset)).toBe(
+      'preset=this_week&time_zone=Europe%2FBerlin'
+    );
+    expect(
+      parseHistoryTotalRequest(serializeHistoryTotalRequest(bounded))
+    ).toEqual({ valid: true, value: bounded });
+    expect(
+      parseHistoryTotalRequest(serializeHistoryTotalRequest(preset))
+    ).toEqual({ valid: true, value: preset });
+  });
+
+  it('should report invalid parameters', () => {
+    expect(
+      codesOf(
+        parseHistoryTotalRequest(
+          'from=soon&preset=yesterday&time_zone=Mars%2FBase&limit=1'
+        )
+      )
+    ).toEqual([
+      'limit:unknown_field',
+      'from:invalid_date',
+      'preset:invalid_value',
+      'time_zone:invalid_value',
+    ]);
+  });
+
+  it('should reject presets combined with bounds and inverted ranges', () => {
+    expect(
+      codesOf(
+        parseHistoryTotalRequest('preset=today&to=2025-01-01T00:00:00.000Z')
+      )
+    ).toEqual(['preset:invalid_range']);
+    expect(
+      codesOf(
+        parseHistoryTotalRequest(
+          'from=2025-02-01T00:00:00.000Z&to=2025-01-01T00:00:00.000Z'
+        )
+      )
+    ).toEqual(['from:invalid_range']);
+  });
+});
+
+describe('matchesHistoryQuery', () => {
+  it('should match everything for an empty query', () => {
+    expect(matchesHistoryQuery(history, {})).toBe(true);
+  });
+
+  it('should treat from as inclusive and to as exclusive', () => {
+    expect(matchesHistoryQuery(history, { from: history.datetime })).toBe(true);
+    expect(matchesHistoryQuery(history, { to: history.datetime })).toBe(false);
+    expect(
+      matchesHistoryQuery(history, {
+        to: toISODateString('2025-01-15T10:30:00.001Z'),
+      })
+    ).toBe(true);
+  });
+
+  it('should treat value bounds as inclusive', () => {
+    expect(matchesHistoryQuery(history, { min_value: 42.5 })).toBe(true);
+    expect(matchesHistoryQuery(history, { max_value: 42.5 })).toBe(true);
+    expect(matchesHistoryQuery(history, { min_value: 43 })).toBe(false);
+    expect(matchesHistoryQuery(history, { max_value: 42 })).toBe(false);
+  });
+
+  it('should ignore sort and paging fields', () => {
+    expect(
+      matchesHistoryQuery(history, { sort: 'value', order: 'asc', limit: 1 })
+    ).toBe(true);
+  });
+});
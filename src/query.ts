@@ -0,0 +1,476 @@
+import {
+  createURLSearchParams,
+  type URLSearchParamsLike,
+} from '@sudobility/types';
+import { parseISODateString, toISODateString } from './dates.js';
+import { MAX_PAGE_LIMIT } from './pagination.js';
+import {
+  DATE_RANGE_PRESETS,
+  isTimeZone,
+  type DateRangePreset,
+} from './ranges.js';
+import type { History, ISODateString } from './types.js';
+import type { FieldError, ValidationResult } from './validation.js';
+
+// =============================================================================
+// Query Types
+// =============================================================================
+
+/** History fields a list can be sorted by. */
+export type HistorySortField = 'datetime' | 'value';
+
+/** Sort direction for list queries. */
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * Filter, sort and paging options for listing history (`GET /history`).
+ *
+ * The datetime range is half-open: records with `from <= datetime < to`
+ * match. The value range is closed: `min_value <= value <= max_value`.
+ * Omitted fields do not constrain the result.
+ *
+ * Cursors encode a position in the default order (newest first), so
+ * `cursor` may only be combined with the default `sort` and `order`.
+ * Other orders are served as a single page: if more than `limit` records
+ * match, the request fails with `VALIDATION_FAILED` on `limit` rather than
+ * returning a truncated list.
+ *
+ * @example
+ * ```typescript
+ * const query: HistoryQuery = {
+ *   from: toISODateString('2025-01-01T00:00:00Z'),
+ *   to: toISODateString('2025-02-01T00:00:00Z'),
+ *   min_value: 10,
+ *   sort: 'value',
+ *   order: 'desc',
+ *   limit: 50,
+ * };
+ * ```
+ */
+export interface HistoryQuery {
+  /** Inclusive lower bound on `datetime` */
+  from?: ISODateString;
+  /** Exclusive upper bound on `datetime` */
+  to?: ISODateString;
+  /** Inclusive lower bound on `value` */
+  min_value?: number;
+  /** Inclusive upper bound on `value` */
+  max_value?: number;
+  /** Field to sort by, defaults to `datetime` */
+  sort?: HistorySortField;
+  /** Sort direction, defaults to `desc` */
+  order?: SortDirection;
+  /** Page size, between 1 and {@link MAX_PAGE_LIMIT} */
+  limit?: number;
+  /**
+   * Opaque cursor from a previous page's `pageInfo.nextCursor`; only valid
+   * with the default `sort` and `order`
+   */
+  cursor?: string;
+}
+
+const SORT_FIELDS: readonly HistorySortField[] = ['datetime', 'value'];
+const SORT_DIRECTIONS: readonly SortDirection[] = ['asc', 'desc'];
+const QUERY_KEYS: readonly (keyof HistoryQuery)[] = [
+  'from',
+  'to',
+  'min_value',
+  'max_value',
+  'sort',
+  'order',
+  'limit',
+  'cursor',
+];
+
+/**
+ * Query for the history total (`GET /history/total`).
+ *
+ * Either give explicit bounds or a `preset`, not both. Bounds are half-open
+ * like {@link HistoryQuery}: records with `from <= datetime < to` count, and
+ * an omitted bound leaves that side open. Presets are resolved in
+ * `time_zone` (default `UTC`) by `resolveHistoryTotalRange`.
+ *
+ * @example
+ * ```typescript
+ * const request: HistoryTotalRequest = {
+ *   preset: 'this_month',
+ *   time_zone: 'America/New_York',
+ * };
+ * ```
+ */
+export interface HistoryTotalRequest {
+  /** Inclusive lower bound on `datetime` */
+  from?: ISODateString;
+  /** Exclusive upper bound on `datetime` */
+  to?: ISODateString;
+  /** Calendar period containing the current time */
+  preset?: DateRangePreset;
+  /** IANA time zone used to resolve `preset`, defaults to `UTC` */
+  time_zone?: string;
+}
+
+const TOTAL_KEYS: readonly (keyof HistoryTotalRequest)[] = [
+  'from',
+  'to',
+  'preset',
+  'time_zone',
+];
+
+// =============================================================================
+// Serialization
+// =============================================================================
+
+/**
+ * Serializes a {@link HistoryQuery} to a URL query string (without `?`).
+ *
+ * Parameters are written in a fixed order and omitted when `undefined`, so
+ * equal queries always produce equal strings (useful as cache keys).
+ *
+ * @param query - The query to serialize
+ * @returns The encoded query string, empty if no field is set
+ *
+ * @example
+ * ```typescript
+ * const qs = serializeHistoryQuery({ min_value: 10, order: 'asc' });
+ * // 'min_value=10&order=asc'
+ * await client.get(`/history${qs ? `?${qs}` : ''}`);
+ * ```
+ */
+export function serializeHistoryQuery(query: HistoryQuery): string {
+  return serializeParams(query, QUERY_KEYS);
+}
+
+/**
+ * Serializes a {@link HistoryTotalRequest} to a URL query string (without
+ * `?`), with the same fixed ordering as {@link serializeHistoryQuery}.
+ *
+ * @param request - The request to serialize
+ * @returns The encoded query string, empty if no field is set
+ */
+export function serializeHistoryTotalRequest(
+  request: HistoryTotalRequest
+): string {
+  return serializeParams(request, TOTAL_KEYS);
+}
+
+// Numbers are written in plain decimal notation, since `parseHistoryQuery`
+// rejects the exponent form `String()` uses for very large or small values.
+function toDecimalString(value: number): string {
+  const text = String(value);
+  const match = /^(-?)(\d)(?:\.(\d+))?e([+-]\d+)$/.exec(text);
+  if (!match) {
+    return text;
+  }
+  const [, sign, lead, rest = '', exponent] = match;
+  const digits = lead + rest;
+  const point = 1 + Number(exponent);
+  return point <= 0
+    ? `${sign}0.${'0'.repeat(-point)}${digits}`
+    : `${sign}${digits.padEnd(point, '0')}`;
+}
+
+function serializeParams<T extends object>(
+  query: T,
+  keys: readonly (keyof T & string)[]
+): string {
+  const params = createURLSearchParams();
+  for (const key of keys) {
+    const value = query[key];
+    if (value !== undefined) {
+      params.set(
+        key,
+        typeof value === 'number' ? toDecimalString(value) : String(value)
+      );
+    }
+  }
+  return params.toString();
+}
+
+function rejectUnknownParams(
+  params: URLSearchParamsLike,
+  keys: readonly string[],
+  errors: FieldError[]
+): void {
+  params.forEach((_value, key) => {
+    if (!keys.includes(key)) {
+      errors.push({
+        field: key,
+        code: 'unknown_field',
+        message: `${key} is not a recognized query parameter`,
+      });
+    }
+  });
+}
+
+// Plain decimal notation only: `Number()` would also accept `0x10`, `0b1`,
+// `1e3` and surrounding whitespace.
+const DECIMAL_PATTERN = /^[+-]?(\d+(\.\d*)?|\.\d+)$/;
+
+function parseNumberParam(
+  params: URLSearchParamsLike,
+  key: 'min_value' | 'max_value',
+  errors: FieldError[]
+): number | undefined {
+  const raw = params.get(key);
+  if (raw === null || raw === undefined) {
+    return undefined;
+  }
+  if (!DECIMAL_PATTERN.test(raw)) {
+    errors.push({
+      field: key,
+      code: 'invalid_number',
+      message: `${key} must be a number in plain decimal notation`,
+    });
+    return undefined;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value)) {
+    errors.push({
+      field: key,
+      code: 'not_finite',
+      message: `${key} must be a finite number`,
+    });
+    return undefined;
+  }
+  return value;
+}
+
+function parseDateParam(
+  params: URLSearchParamsLike,
+  key: 'from' | 'to',
+  errors: FieldError[]
+): ISODateString | undefined {
+  const raw = params.get(key);
+  if (raw === null || raw === undefined) {
+    return undefined;
+  }
+  if (!parseISODateString(raw, { mode: 'lenient' }).valid) {
+    errors.push({
+      field: key,
+      code: 'invalid_date',
+      message: `${key} must be an ISO 8601 datetime`,
+    });
+    return undefined;
+  }
+  return toISODateString(raw);
+}
+
+function parseEnumParam<T extends string>(
+  params: URLSearchParamsLike,
+  key: 'sort' | 'order' | 'preset',
+  allowed: readonly T[],
+  errors: FieldError[]
+): T | undefined {
+  const raw = params.get(key);
+  if (raw === null || raw === undefined) {
+    return undefined;
+  }
+  if (!(allowed as readonly string[]).includes(raw)) {
+    errors.push({
+      field: key,
+      code: 'invalid_value',
+      message: `${key} must be one of ${allowed.join(', ')}`,
+    });
+    return undefined;
+  }
+  return raw as T;
+}
+
+/**
+ * Parses and validates URL query parameters into a {@link HistoryQuery}.
+ *
+ * Datetimes are accepted leniently and normalized to canonical UTC, numbers
+ * must be finite, `limit` must be an integer between 1 and
+ * {@link MAX_PAGE_LIMIT}, `cursor` is only accepted with the default sort
+ * and order, and unknown parameters are rejected. All problems
+ * are reported together as field errors keyed by parameter name.
+ *
+ * @param input - A query string (with or without leading `?`) or search params
+ * @returns The typed query, or the list of field errors
+ *
+ * @example
+ * ```typescript
+ * const result = parseHistoryQuery(new URL(req.url).search);
+ * if (!result.valid) {
+ *   return errorResponse('Invalid query', {
+ *     code: 'VALIDATION_FAILED',
+ *     fieldErrors: result.errors,
+ *   });
+ * }
+ * ```
+ */
+export function parseHistoryQuery(
+  input: string | URLSearchParamsLike
+): ValidationResult<HistoryQuery> {
+  const params =
+    typeof input === 'string' ? createURLSearchParams(input) : input;
+  const errors: FieldError[] = [];
+  const query: HistoryQuery = {};
+
+  rejectUnknownParams(params, QUERY_KEYS, errors);
+
+  const from = parseDateParam(params, 'from', errors);
+  const to = parseDateParam(params, 'to', errors);
+  const minValue = parseNumberParam(params, 'min_value', errors);
+  const maxValue = parseNumberParam(params, 'max_value', errors);
+  const sort = parseEnumParam(params, 'sort', SORT_FIELDS, errors);
+  const order = parseEnumParam(params, 'order', SORT_DIRECTIONS, errors);
+
+  const rawLimit = params.get('limit');
+  if (rawLimit !== null && rawLimit !== undefined) {
+    const limit = Number(rawLimit);
+    if (!/^\d+$/.test(rawLimit) || limit < 1 || limit > MAX_PAGE_LIMIT) {
+      errors.push({
+        field: 'limit',
+        code: 'invalid_value',
+        message: `limit must be an integer between 1 and ${MAX_PAGE_LIMIT}`,
+      });
+    } else {
+      query.limit = limit;
+    }
+  }
+
+  const cursor = params.get('cursor');
+  if (cursor !== null && cursor !== undefined) {
+    if ((sort ?? 'datetime') !== 'datetime' || (order ?? 'desc') !== 'desc') {
+      errors.push({
+        field: 'cursor',
+        code: 'invalid_value',
+        message: 'cursor requires the default sort (datetime) and order (desc)',
+      });
+    } else {
+      query.cursor = cursor;
+    }
+  }
+
+  if (from !== undefined && to !== undefined && from > to) {
+    errors.push({
+      field: 'from',
+      code: 'invalid_range',
+      message: 'from must not be later than to',
+    });
+  }
+  if (minValue !== undefined && maxValue !== undefined && minValue > maxValue) {
+    errors.push({
+      field: 'min_value',
+      code: 'invalid_range',
+      message: 'min_value must not be greater than max_value',
+    });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  if (from !== undefined) query.from = from;
+  if (to !== undefined) query.to = to;
+  if (minValue !== undefined) query.min_value = minValue;
+  if (maxValue !== undefined) query.max_value = maxValue;
+  if (sort !== undefined) query.sort = sort;
+  if (order !== undefined) query.order = order;
+  return { valid: true, value: query };
+}
+
+/**
+ * Parses and validates URL query parameters into a
+ * {@link HistoryTotalRequest}.
+ *
+ * Datetimes are normalized to canonical UTC, `preset` must be a known
+ * preset and may not be combined with `from`/`to`, and `time_zone` must be
+ * an IANA zone the runtime recognizes.
+ *
+ * @param input - A query string (with or without leading `?`) or search params
+ * @returns The typed request, or the list of field errors
+ *
+ * @example
+ * ```typescript
+ * const result = parseHistoryTotalRequest(new URL(req.url).search);
+ * if (result.valid) {
+ *   const range = resolveHistoryTotalRange(result.value);
+ * }
+ * ```
+ */
+export function parseHistoryTotalRequest(
+  input: string | URLSearchParamsLike
+): ValidationResult<HistoryTotalRequest> {
+  const params =
+    typeof input === 'string' ? createURLSearchParams(input) : input;
+  const errors: FieldError[] = [];
+
+  rejectUnknownParams(params, TOTAL_KEYS, errors);
+
+  const from = parseDateParam(params, 'from', errors);
+  const to = parseDateParam(params, 'to', errors);
+  const preset = parseEnumParam(params, 'preset', DATE_RANGE_PRESETS, errors);
+
+  const timeZone = params.get('time_zone');
+  if (timeZone !== null && timeZone !== undefined && !isTimeZone(timeZone)) {
+    errors.push({
+      field: 'time_zone',
+      code: 'invalid_value',
+      message: 'time_zone must be an IANA time zone',
+    });
+  }
+
+  if (from !== undefined && to !== undefined && from > to) {
+    errors.push({
+      field: 'from',
+      code: 'invalid_range',
+      message: 'from must not be later than to',
+    });
+  }
+  if (preset !== undefined && (params.has('from') || params.has('to'))) {
+    errors.push({
+      field: 'preset',
+      code: 'invalid_range',
+      message: 'preset cannot be combined with from or to',
+    });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  const request: HistoryTotalRequest = {};
+  if (from !== undefined) request.from = from;
+  if (to !== undefined) request.to = to;
+  if (preset !== undefined) request.preset = preset;
+  if (timeZone !== null && timeZone !== undefined) request.time_zone = timeZone;
+  return { valid: true, value: request };
+}
+
+// =============================================================================
+// Filtering
+// =============================================================================
+
+/**
+ * Tests whether a history record satisfies the filter part of a query
+ * (`from`, `to`, `min_value`, `max_value`). Sorting and paging fields are
+ * ignored.
+ *
+ * @param history - The record to test
+ * @param query - The query to test against
+ * @returns `true` if the record matches every filter in the query
+ *
+ * @example
+ * ```typescript
+ * const visible = histories.filter((h) => matchesHistoryQuery(h, query));
+ * ```
+ */
+export function matchesHistoryQuery(
+  history: History,
+  query: HistoryQuery
+): boolean {
+  const time = Date.parse(history.datetime);
+  if (query.from !== undefined && time < Date.parse(query.from)) {
+    return false;
+  }
+  if (query.to !== undefined && time >= Date.parse(query.to)) {
+    return false;
+  }
+  if (query.min_value !== undefined && history.value < query.min_value) {
+    return false;
+  }
+  if (query.max_value !== undefined && history.value > query.max_value) {
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isTimeZone,
+  resolveDateRangePreset,
+  resolveHistoryTotalRange,
+  toISODateString,
+} from './index.js';
+
+// A Wednesday, 23:30 in UTC and already Thursday in Tokyo.
+const now = Date.UTC(2025, 0, 15, 23, 30);
+
+describe('resolveDateRangePreset', () => {
+  it('should resolve presets in UTC by default', () => {
+    expect(resolveDateRangePreset('today', { now })).toEqual({
+      from: '2025-01-15T00:00:00.000Z',
+      to: '2025-01-16T00:00:00.000Z',
+    });
+    expect(resolveDateRangePreset('this_week', { now })).toEqual({
+      from: '2025-01-13T00:00:00.000Z',
+      to: '2025-01-20T00:00:00.000Z',
+    });
+    expect(resolveDateRangePreset('this_month', { now })).toEqual({
+      from: '2025-01-01T00:00:00.000Z',
+      to: '2025-02-01T00:00:00.000Z',
+    });
+  });
+
+  it('should follow the calendar of the time zone', () => {
+    expect(
+      resolveDateRangePreset('today', { now, timeZone: 'Asia/Tokyo' })
+    ).toEqual({
+      from: '2025-01-15T15:00:00.000Z',
+      to: '2025-01-16T15:00:00.000Z',
+    });
+    expect(
+      resolveDateRangePreset('today', {
+        now: Date.UTC(2025, 2, 9, 12),
+        timeZone: 'America/New_York',
+      })
+    ).toEqual({
+      from: '2025-03-09T05:00:00.000Z',
+      to: '2025-03-10T04:00:00.000Z',
+    });
+  });
+
+  it('should throw on unknown time zones', () => {
+    expect(() =>
+      resolveDateRangePreset('today', { timeZone: 'Mars/Base' })
+    ).toThrow(RangeError);
+    expect(isTimeZone('Mars/Base')).toBe(false);
+    expect(isTimeZone('Europe/Berlin')).toBe(true);
+  });
+});
+
+describe('resolveHistoryTotalRange', () => {
+  it('should echo explicit bounds with open sides as null', () => {
+    const from = toISODateString('2025-01-01T00:00:00.000Z');
+
+    expect(resolveHistoryTotalRange({ from })).toEqual({ from, to: null });
+    expect(resolveHistoryTotalRange({})).toEqual({ from: null, to: null });
+  });
+
+  it('should resolve presets in the request time zone', () => {
+    expect(
+      resolveHistoryTotalRange(
+        { preset: 'this_month', time_zone: 'Europe/Berlin' },
+        now
+      )
+    ).toEqual({
+      from: '2024-12-31T23:00:00.000Z',
+      to: '2025-01-31T23:00:00.000Z',
+    });
+  });
+
+  it('should reject presets combined with bounds', () => {
+    expect(() =>
+      resolveHistoryTotalRange({
+        preset: 'today',
+        to: toISODateString('2025-01-01T00:00:00.000Z'),
+      })
+    ).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,131 @@
+import { toISODateString } from './dates.js';
+import type { HistoryTotalRequest } from './query.js';
+import { getSeriesBucket, type SeriesGranularity } from './series.js';
+import type { ISODateString } from './types.js';
+
+// =============================================================================
+// Range Types
+// =============================================================================
+
+/** Named calendar periods containing the current time. */
+export type DateRangePreset = 'today' | 'this_week' | 'this_month';
+
+/** Every {@link DateRangePreset}, for validation and pickers. */
+export const DATE_RANGE_PRESETS: readonly DateRangePreset[] = [
+  'today',
+  'this_week',
+  'this_month',
+];
+
+/**
+ * A concrete half-open datetime range: `from <= datetime < to`.
+ * A `null` bound leaves that side of the range open.
+ */
+export interface HistoryDateRange {
+  /** Inclusive lower bound, or null for no lower bound */
+  from: ISODateString | null;
+  /** Exclusive upper bound, or null for no upper bound */
+  to: ISODateString | null;
+}
+
+/** Options for {@link resolveDateRangePreset}. */
+export interface DateRangePresetOptions {
+  /** IANA time zone whose calendar defines the period. Defaults to `UTC`. */
+  timeZone?: string;
+  /** The current time. Defaults to `new Date()`. */
+  now?: Date | number;
+}
+
+const PRESET_GRANULARITY: Record<DateRangePreset, SeriesGranularity> = {
+  today: 'day',
+  this_week: 'week',
+  this_month: 'month',
+};
+
+// =============================================================================
+// Resolution
+// =============================================================================
+
+/**
+ * Tests whether a string names an IANA time zone the runtime recognizes.
+ *
+ * @param value - The candidate zone, e.g. `'Europe/Berlin'`
+ * @returns `true` if `Intl` accepts the zone
+ */
+export function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolves a preset to the concrete period containing `now` in a time zone.
+ *
+ * Weeks start on Monday. Periods follow the zone's calendar, so `today`
+ * spans 23 or 25 hours on DST transition days.
+ *
+ * @param preset - The period to resolve
+ * @param options - Time zone and current time
+ * @returns The period's inclusive start and exclusive end
+ * @throws {RangeError} If the time zone is unknown
+ *
+ * @example
+ * ```typescript
+ * resolveDateRangePreset('this_month', {
+ *   timeZone: 'Europe/Berlin',
+ *   now: Date.UTC(2025, 2, 15),
+ * });
+ * // { from: '2025-02-28T23:00:00.000Z', to: '2025-03-31T22:00:00.000Z' }
+ * ```
+ */
+export function resolveDateRangePreset(
+  preset: DateRangePreset,
+  options: DateRangePresetOptions = {}
+): { from: ISODateString; to: ISODateString } {
+  const { start, end } = getSeriesBucket(
+    toISODateString(options.now ?? new Date()),
+    PRESET_GRANULARITY[preset],
+    options.timeZone ?? 'UTC'
+  );
+  return { from: start, to: end };
+}
+
+/**
+ * Resolves a {@link HistoryTotalRequest} to the range it covers, so servers
+ * filter and clients label totals with the same bounds. The result is what
+ * the server echoes in `HistoryTotalResponse.range`.
+ *
+ * @param request - A validated request
+ * @param now - The current time, used by presets. Defaults to `new Date()`.
+ * @returns The resolved range; open bounds are `null`
+ * @throws {RangeError} If a preset is combined with bounds or the time zone
+ *   is unknown
+ *
+ * @example
+ * ```typescript
+ * const range = resolveHistoryTotalRange({ preset: 'today', time_zone: tz });
+ * const total = sumValues(
+ *   histories
+ *     .filter((h) => matchesHistoryQuery(h, { from: range.from!, to: range.to! }))
+ *     .map((h) => h.value)
+ * );
+ * ```
+ */
+export function resolveHistoryTotalRange(
+  request: HistoryTotalRequest,
+  now: Date | number = new Date()
+): HistoryDateRange {
+  if (request.preset === undefined) {
+    return { from: request.from ?? null, to: request.to ?? null };
+  }
+  if (request.from !== undefined || request.to !== undefined) {
+    throw new RangeError('preset cannot be combined with from or to');
+  }
+  return resolveDateRangePreset(request.preset, {
+    timeZone: request.time_zone,
+    now,
+  });
+}
@@ -0,0 +1,304 @@
+import type { BaseResponse } from '@sudobility/types';
+import { toISODateString } from './dates.js';
+import {
+  ERROR_CODES,
+  type ErrorCode,
+  type ErrorResponseOptions,
+  type StructuredErrorResponse,
+} from './errors.js';
+import type { ResponseMeta, ResponseOptions } from './meta.js';
+import type { PageInfo, PaginatedResponse } from './pagination.js';
+import type { ISODateString } from './types.js';
+
+// =============================================================================
+// Response Helpers
+// =============================================================================
+
+/**
+ * Constructs a successful API response.
+ *
+ * Creates a {@link BaseResponse} with `success: true`, the provided data payload,
+ * and a timestamp set to the current time in ISO 8601 format.
+ *
+ * @typeParam T - The type of the response payload
+ * @param data - The response payload (can be any type, including `undefined` or `null`)
+ * @returns A {@link BaseResponse} with `success: true` and `data` property set
+ *
+ * @example
+ * ```typescript
+ * // Successful single record
+ * const response1 = successResponse({ id: '123', name: 'test' });
+ *
+ * // Array of records
+ * const response2 = successResponse([
+ *   { id: '1', value: 100 },
+ *   { id: '2', value: 200 },
+ * ]);
+ *
+ * // Null or undefined data (valid, though potentially unusual)
+ * const response3 = successResponse(null);
+ *
+ * // With diagnostics
+ * const response4 = successResponse(user, {
+ *   meta: { requestId: c.get('requestId'), apiVersion: '1.4.0' },
+ * });
+ * ```
+ *
+ * @internal
+ * Timestamp is always included in the response envelope and formatted as ISO 8601.
+ * `meta` is only present when given.
+ */
+export function successResponse<T>(
+  data: T,
+  options: ResponseOptions = {}
+): BaseResponse<T> & { timestamp: ISODateString; meta?: ResponseMeta } {
+  return {
+    success: true,
+    data,
+    timestamp: toISODateString(new Date()),
+    ...(options.meta !== undefined && { meta: options.meta }),
+  };
+}
+
+/**
+ * Constructs a successful paginated list response.
+ *
+ * Wraps `items` like {@link successResponse} and adds the page's
+ * {@link PageInfo} to the envelope.
+ *
+ * @typeParam T - The item type
+ * @param items - The items in this page
+ * @param pageInfo - Pagination metadata for this page
+ * @param options - Optional `meta` block, as for {@link successResponse}
+ * @returns A {@link PaginatedResponse} with `success: true`
+ *
+ * @example
+ * ```typescript
+ * const page = paginateHistory(records, query.cursor, query.limit);
+ * return paginatedResponse(page.items, page.pageInfo);
+ * ```
+ */
+export function paginatedResponse<T>(
+  items: T[],
+  pageInfo: PageInfo,
+  options: ResponseOptions = {}
+): PaginatedResponse<T> & { timestamp: ISODateString; meta?: ResponseMeta } {
+  return { ...successResponse(items, options), pageInfo };
+}
+
+/**
+ * Constructs an error API response.
+ *
+ * Creates a {@link BaseResponse} with `success: false`, the provided error message,
+ * and a timestamp set to the current time in ISO 8601 format.
+ *
+ * When `options` include a `code`, the response additionally carries a stable
+ * {@link ErrorCode} and, if provided, `details` and `fieldErrors`, producing a
+ * {@link StructuredErrorResponse}. A `meta` option adds a `meta` block to
+ * either form. Without options the envelope is unchanged (`success`,
+ * `error`, `timestamp` only).
+ *
+ * **Note:** This function accepts empty strings as valid error messages. While this
+ * is allowed by the runtime and type system, it is generally recommended to provide
+ * meaningful, non-empty error descriptions for better debugging and client-side handling.
+ *
+ * @param error - A descriptive error message (may be empty, though not recommended)
+ * @param options - Optional error code, details, per-field errors and meta
+ * @returns A {@link BaseResponse} with `success: false` and `error` property set
+ *
+ * @example
+ * ```typescript
+ * // Standard error
+ * const response1 = errorResponse('User not found');
+ *
+ * // Error with context
+ * const response2 = errorResponse('Invalid datetime format: expected ISO 8601');
+ *
+ * // Empty string (allowed but not recommended)
+ * const response3 = errorResponse('');
+ *
+ * // Structured error
+ * const response4 = errorResponse('History not found', {
+ *   code: 'NOT_FOUND',
+ *   details: { id: toHistoryId('3f2b8c1e-9d4a-4f6b-8e2c-7a1d5b9c0e4f') },
+ * });
+ *
+ * // With diagnostics
+ * const response5 = errorResponse('Internal error', {
+ *   code: 'INTERNAL',
+ *   meta: { requestId: 'req_8f2c' },
+ * });
+ * ```
+ *
+ * @internal
+ * Timestamp is always included in the response envelope and formatted as ISO 8601.
+ */
+export function errorResponse<C extends ErrorCode>(
+  error: string,
+  options: ErrorResponseOptions<C> & ResponseOptions
+): StructuredErrorResponse<C>;
+export function errorResponse(
+  error: string,
+  options?: ResponseOptions
+): BaseResponse<never> & { meta?: ResponseMeta };
+export function errorResponse<C extends ErrorCode>(
+  error: string,
+  options: Partial<ErrorResponseOptions<C>> & ResponseOptions = {}
+): BaseResponse<never> | StructuredErrorResponse<C> {
+  const timestamp = new Date().toISOString();
+  if (options.code === undefined) {
+    return {
+      success: false,
+      error,
+      timestamp,
+      ...(options.meta !== undefined && { meta: options.meta }),
+    };
+  }
+
+  const response: StructuredErrorResponse<C> = {
+    success: false,
+    error,
+    code: options.code,
+    timestamp,
+  };
+  if (options.details !== undefined) {
+    response.details = options.details;
+  }
+  if (options.fieldErrors !== undefined) {
+    response.fieldErrors = options.fieldErrors;
+  }
+  if (options.meta !== undefined) {
+    response.meta = options.meta;
+  }
+  return response;
+}
+
+// =============================================================================
+// Type Guards
+// =============================================================================
+
+/**
+ * Type guard to narrow a {@link BaseResponse} to a successful response.
+ *
+ * Checks if a response has `success: true`, allowing TypeScript to narrow
+ * the type to access the `data` property safely.
+ *
+ * @typeParam T - The expected type of the response data
+ * @param response - The response to check
+ * @returns `true` if the response is successful, `false` otherwise
+ *
+ * @example
+ * ```typescript
+ * async function fetchHistory(): Promise<BaseResponse<History[]>> {
+ *   const response = await client.get('/history');
+ *   if (isSuccessResponse<History[]>(response)) {
+ *     // TypeScript now knows response.data is History[]
+ *     const histories = response.data;
+ *     return histories;
+ *   }
+ *   console.error('Failed:', response.error);
+ * }
+ * ```
+ */
+export function isSuccessResponse<T>(
+  response: BaseResponse<T>
+): response is BaseResponse<T> & { success: true; data: T } {
+  return response.success === true;
+}
+
+/**
+ * Type guard to narrow a {@link BaseResponse} to an error response.
+ *
+ * Checks if a response has `success: false`, allowing TypeScript to narrow
+ * the type to access the `error` property safely.
+ *
+ * @param response - The response to check
+ * @returns `true` if the response is an error, `false` otherwise
+ *
+ * @example
+ * ```typescript
+ * async function updateHistory(id: HistoryId, value: number): Promise<void> {
+ *   const response = await client.patch(`/history/${id}`, { value });
+ *   if (isErrorResponse(response)) {
+ *     // TypeScript now knows response.error is string
+ *     throw new Error(response.error);
+ *   }
+ *   // Success case
+ * }
+ * ```
+ */
+export function isErrorResponse(
+  response: BaseResponse<unknown>
+): response is BaseResponse<never> & { success: false; error: string } {
+  return response.success === false;
+}
+
+/**
+ * Type guard to narrow a {@link BaseResponse} to a {@link StructuredErrorResponse}.
+ *
+ * Returns `true` only for error responses carrying a known {@link ErrorCode}.
+ * When `codes` are given, the response's code must also be one of them, and
+ * the narrowed type is restricted to those codes.
+ *
+ * @typeParam C - The error code literal(s) to narrow to
+ * @param response - The response to check
+ * @param codes - Optional error codes to match against
+ * @returns `true` if the response is a structured error with a matching code
+ *
+ * @example
+ * ```typescript
+ * const response = await client.get(`/history/${id}`);
+ * if (isStructuredErrorResponse(response, 'NOT_FOUND')) {
+ *   // response.code is 'NOT_FOUND'
+ *   return null;
+ * }
+ * if (isStructuredErrorResponse(response, 'VALIDATION_FAILED')) {
+ *   showFieldErrors(response.fieldErrors ?? []);
+ * }
+ * ```
+ */
+export function isStructuredErrorResponse<C extends ErrorCode = ErrorCode>(
+  response: BaseResponse<unknown>,
+  ...codes: C[]
+): response is StructuredErrorResponse<C> {
+  if (response.success !== false) {
+    return false;
+  }
+  const code = (response as Partial<StructuredErrorResponse>).code;
+  if (typeof code !== 'string' || !ERROR_CODES.includes(code)) {
+    return false;
+  }
+  return codes.length === 0 || (codes as ErrorCode[]).includes(code);
+}
+
+/**
+ * Runtime check that an unknown value has the {@link BaseResponse} envelope
+ * shape: a boolean `success`, a string `timestamp`, and a string `error`
+ * when `success` is `false`.
+ *
+ * Use this on anything received from a transport before trusting its type.
+ *
+ * @param value - The value to check
+ * @returns `true` if the value is a well-formed response envelope
+ *
+ * @example
+ * ```typescript
+ * const body: unknown = await res.json();
+ * if (!isBaseResponse(body)) {
+ *   throw new Error('Malformed response');
+ * }
+ * ```
+ */
+export function isBaseResponse(value: unknown): value is BaseResponse<unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const candidate = value as Record<string, unknown>;
+  if (
+    typeof candidate.success !== 'boolean' ||
+    typeof candidate.timestamp !== 'string'
+  ) {
+    return false;
+  }
+  return candidate.success || typeof candidate.error === 'string';
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  combineResponses,
+  errorResponse,
+  flatMapResponse,
+  fromPromise,
+  isStructuredErrorResponse,
+  mapError,
+  mapResponse,
+  StarterApiError,
+  successResponse,
+  unwrapOr,
+  unwrapResponse,
+  type BaseResponse,
+} from './index.js';
+
+const ok: BaseResponse<number> = successResponse(2);
+const notFound: BaseResponse<number> = errorResponse('History not found', {
+  code: 'NOT_FOUND',
+  details: { id: 'hist-1' },
+});
+
+describe('mapResponse / flatMapResponse / mapError', () => {
+  it('should transform success data and keep the envelope', () => {
+    const mapped = mapResponse(
+      successResponse(2, { meta: { requestId: 'r1' } }),
+      (n) => `${n * 2}`
+    );
+
+    expect(mapped).toMatchObject({ success: true, data: '4', meta: {} });
+    expect(mapResponse(notFound, () => 'x')).toBe(notFound);
+  });
+
+  it('should chain response-returning steps', () => {
+    const half = (n: number) =>
+      n % 2 === 0
+        ? successResponse(n / 2)
+        : errorResponse('odd', { code: 'BAD_REQUEST' });
+
+    expect(flatMapResponse(ok, half).data).toBe(1);
+    expect(flatMapResponse(successResponse(3), half).error).toBe('odd');
+    expect(flatMapResponse(notFound, half)).toBe(notFound);
+  });
+
+  it('should rewrite only error responses', () => {
+    const reword = (error: BaseResponse<never>) =>
+      isStructuredErrorResponse(error, 'NOT_FOUND')
+        ? errorResponse('Deleted', { code: 'NOT_FOUND' })
+        : error;
+
+    expect(mapError(notFound, reword).error).toBe('Deleted');
+    expect(mapError(ok, reword)).toBe(ok);
+  });
+});
+
+describe('unwrapResponse / unwrapOr', () => {
+  it('should return data or throw a typed error', () => {
+    expect(unwrapResponse(ok)).toBe(2);
+    expect(unwrapOr(notFound, 0)).toBe(0);
+    expect(unwrapOr(ok, 0)).toBe(2);
+
+    let thrown: unknown;
+    try {
+      unwrapResponse(notFound);
+    } catch (error) {
+      thrown = error;
+    }
+    expect(thrown).toBeInstanceOf(StarterApiError);
+    expect(thrown).toMatchObject({
+      name: 'StarterApiError',
+      message: 'History not found',
+      code: 'NOT_FOUND',
+      details: { id: 'hist-1' },
+      response: notFound,
+    });
+  });
+
+  it('should leave code undefined for plain error responses', () => {
+    expect(() => unwrapResponse(errorResponse('Oops'))).toThrow(
+      expect.objectContaining({ message: 'Oops', code: undefined })
+    );
+  });
+});
+
+describe('combineResponses', () => {
+  it('should combine a tuple of successes', () => {
+    const combined = combineResponses([ok, successResponse('a')]);
+    const [n, s]: [number, string] = unwrapResponse(combined);
+
+    expect([n, s]).toEqual([2, 'a']);
+  });
+
+  it('should return the first error', () => {
+    const other = errorResponse('Later', { code: 'INTERNAL' });
+
+    expect(combineResponses([ok, notFound, other])).toBe(notFound);
+  });
+});
+
+describe('fromPromise', () => {
+  it('should wrap resolved values', async () => {
+    expect(await fromPromise(Promise.resolve(5))).toMatchObject({
+      success: true,
+      data: 5,
+    });
+    expect((await fromPromise(() => 'sync')).data).toBe('sync');
+  });
+
+  it('should convert thrown and rejected errors', async () => {
+    expect(
+      await fromPromise(Promise.reject(new Error('boom')), {
+        code: 'UNAVAILABLE',
+      })
+    ).toMatchObject({ success: false, error: 'boom', code: 'UNAVAILABLE' });
+    expect(
+      await fromPromise(() => {
+        throw 'not an error';
+      })
+    ).toMatchObject({ error: 'Unexpected error', code: 'INTERNAL' });
+  });
+
+  it('should restore the envelope of a StarterApiError', async () => {
+    const response = await fromPromise(async () => unwrapResponse(notFound));
+
+    expect(response).toBe(notFound);
+  });
+});
@@ -0,0 +1,235 @@
+import type { BaseResponse } from '@sudobility/types';
+import { StarterApiError, type ErrorCode } from './errors.js';
+import {
+  errorResponse,
+  isSuccessResponse,
+  successResponse,
+} from './responses.js';
+
+// =============================================================================
+// Result Types
+// =============================================================================
+
+/** An error envelope, as narrowed by `isErrorResponse`. */
+export type FailedResponse = BaseResponse<never> & {
+  success: false;
+  error: string;
+};
+
+/**
+ * The data type of a response envelope type.
+ *
+ * @example
+ * ```typescript
+ * type Data = ResponseData<BaseResponse<History>>; // History
+ * ```
+ */
+export type ResponseData<R> = R extends BaseResponse<infer T> ? T : never;
+
+/** Options for {@link fromPromise}. */
+export interface FromPromiseOptions {
+  /** Code for errors that are not a `StarterApiError`. Defaults to `INTERNAL`. */
+  code?: ErrorCode;
+}
+
+function asFailed(response: BaseResponse<unknown>): FailedResponse {
+  return response as FailedResponse;
+}
+
+// =============================================================================
+// Combinators
+// =============================================================================
+
+/**
+ * Transforms the data of a successful response; error responses pass
+ * through unchanged.
+ *
+ * Other envelope fields (`timestamp`, `meta`, `pageInfo`) are kept.
+ *
+ * @param response - The response to transform
+ * @param fn - Maps the success data
+ * @returns The transformed response
+ *
+ * @example
+ * ```typescript
+ * const values = mapResponse(await api.getHistories(), (page) =>
+ *   page.map((h) => h.value)
+ * );
+ * ```
+ */
+export function mapResponse<T, U>(
+  response: BaseResponse<T>,
+  fn: (data: T) => U
+): BaseResponse<U> {
+  if (!isSuccessResponse(response)) {
+    return asFailed(response);
+  }
+  return { ...response, data: fn(response.data) };
+}
+
+/**
+ * Chains a step that itself returns a response. Error responses pass
+ * through without calling `fn`.
+ *
+ * @param response - The response to continue from
+ * @param fn - Produces the next response from the success data
+ * @returns The response from `fn`, or the original error
+ *
+ * @example
+ * ```typescript
+ * const validated = flatMapResponse(parsed, (body) => {
+ *   const result = validateHistoryCreateRequest(body);
+ *   return result.valid
+ *     ? successResponse(result.value)
+ *     : errorResponse('Invalid body', {
+ *         code: 'VALIDATION_FAILED',
+ *         fieldErrors: result.errors,
+ *       });
+ * });
+ * ```
+ */
+export function flatMapResponse<T, U>(
+  response: BaseResponse<T>,
+  fn: (data: T) => BaseResponse<U>
+): BaseResponse<U> {
+  if (!isSuccessResponse(response)) {
+    return asFailed(response);
+  }
+  return fn(response.data);
+}
+
+/**
+ * Replaces the envelope of an error response, e.g. to reword a message or
+ * change its code. Successful responses pass through unchanged.
+ *
+ * @param response - The response to transform
+ * @param fn - Maps the error envelope to a new error envelope
+ * @returns The transformed response
+ *
+ * @example
+ * ```typescript
+ * const response = mapError(await api.getHistory(id), (error) =>
+ *   isStructuredErrorResponse(error, 'NOT_FOUND')
+ *     ? errorResponse('This entry was deleted', { code: 'NOT_FOUND' })
+ *     : error
+ * );
+ * ```
+ */
+export function mapError<T>(
+  response: BaseResponse<T>,
+  fn: (error: FailedResponse) => BaseResponse<never>
+): BaseResponse<T> {
+  if (isSuccessResponse(response)) {
+    return response;
+  }
+  return fn(asFailed(response));
+}
+
+/**
+ * Returns the data of a successful response, or throws.
+ *
+ * @param response - The response to unwrap
+ * @returns The success data
+ * @throws {StarterApiError} If the response is an error, carrying its code,
+ * details and field errors
+ *
+ * @example
+ * ```typescript
+ * const history = unwrapResponse(await api.getHistory(id));
+ * ```
+ */
+export function unwrapResponse<T>(response: BaseResponse<T>): T {
+  if (!isSuccessResponse(response)) {
+    throw new StarterApiError(asFailed(response));
+  }
+  return response.data;
+}
+
+/**
+ * Returns the data of a successful response, or `fallback` for an error.
+ *
+ * @param response - The response to unwrap
+ * @param fallback - Value to use when the response is an error
+ * @returns The success data or the fallback
+ *
+ * @example
+ * ```typescript
+ * const total = unwrapOr(await api.getHistoryTotal(), { total: 0 }).total;
+ * ```
+ */
+export function unwrapOr<T>(response: BaseResponse<T>, fallback: T): T {
+  return isSuccessResponse(response) ? response.data : fallback;
+}
+
+/**
+ * Combines a tuple of responses into one response carrying a tuple of
+ * their data. The first error response, in order, is returned instead if
+ * any failed.
+ *
+ * @param responses - The responses to combine
+ * @returns A success response with each response's data, or the first error
+ *
+ * @example
+ * ```typescript
+ * const combined = combineResponses([
+ *   await api.getCurrentUser(),
+ *   await api.getHistoryStats(),
+ * ]);
+ * if (isSuccessResponse(combined)) {
+ *   const [user, stats] = combined.data;
+ * }
+ * ```
+ */
+export function combineResponses<R extends BaseResponse<unknown>[]>(
+  responses: [...R]
+): BaseResponse<{ [K in keyof R]: ResponseData<R[K]> }> {
+  const data: unknown[] = [];
+  for (const response of responses) {
+    if (!isSuccessResponse(response)) {
+      return asFailed(response);
+    }
+    data.push(response.data);
+  }
+  return successResponse(data as { [K in keyof R]: ResponseData<R[K]> });
+}
+
+/**
+ * Runs a promise or function and wraps its outcome in a response envelope.
+ *
+ * A resolved value becomes a success response. A thrown `StarterApiError`
+ * becomes the error envelope it carries, so `unwrapResponse` inside the
+ * callback short-circuits with the original error; anything else thrown or
+ * rejected becomes a structured error with `options.code`.
+ *
+ * @param source - A promise, or a (possibly async) function to call
+ * @param options - Code for unexpected errors
+ * @returns A promise that always resolves with a response
+ *
+ * @example
+ * ```typescript
+ * const response = await fromPromise(async () => {
+ *   const history = unwrapResponse(await api.getHistory(id));
+ *   return unwrapResponse(
+ *     await api.updateHistory(id, { value: history.value + 1 })
+ *   );
+ * });
+ * ```
+ */
+export async function fromPromise<T>(
+  source: Promise<T> | (() => T | Promise<T>),
+  options: FromPromiseOptions = {}
+): Promise<BaseResponse<T>> {
+  try {
+    return successResponse(
+      await (typeof source === 'function' ? source() : source)
+    );
+  } catch (error) {
+    if (error instanceof StarterApiError) {
+      return error.response;
+    }
+    return errorResponse(
+      error instanceof Error ? error.message : 'Unexpected error',
+      { code: options.code ?? 'INTERNAL' }
+    );
+  }
+}
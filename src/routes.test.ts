@@ -0,0 +1,106 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import {
+  buildPath,
+  STARTER_API_ROUTES,
+  toHistoryId,
+  toUserId,
+  type BaseResponse,
+  type History,
+  type HistoryId,
+  type HistoryQuery,
+  type HistoryUpdateRequest,
+  type MethodOf,
+  type PathOf,
+  type PathParams,
+  type PayloadOf,
+  type RequestOf,
+  type ResponseOf,
+  type RouteKey,
+} from './index.js';
+
+describe('route contract types', () => {
+  it('should extract path params from templates', () => {
+    expectTypeOf<PathParams<'/history/:id'>>().toEqualTypeOf<{
+      id: HistoryId;
+    }>();
+    expectTypeOf<PathParams<'/users/:userId/history/:id'>>().toMatchTypeOf<{
+      userId: string;
+      id: HistoryId;
+    }>();
+    expectTypeOf<keyof PathParams<'/health'>>().toBeNever();
+  });
+
+  it('should split route keys into method and path', () => {
+    expectTypeOf<MethodOf<'PATCH /history/:id'>>().toEqualTypeOf<'PATCH'>();
+    expectTypeOf<
+      PathOf<'PATCH /history/:id'>
+    >().toEqualTypeOf<'/history/:id'>();
+  });
+
+  it('should expose request and response shapes', () => {
+    expectTypeOf<
+      RequestOf<'PATCH /history/:id'>['body']
+    >().toEqualTypeOf<HistoryUpdateRequest>();
+    expectTypeOf<RequestOf<'PATCH /history/:id'>['params']>().toEqualTypeOf<{
+      id: HistoryId;
+    }>();
+    expectTypeOf<
+      RequestOf<'GET /history'>['query']
+    >().toEqualTypeOf<HistoryQuery>();
+    expectTypeOf<ResponseOf<'GET /history/:id'>>().toEqualTypeOf<
+      BaseResponse<History>
+    >();
+    expectTypeOf<PayloadOf<'GET /history'>>().toEqualTypeOf<History[]>();
+  });
+});
+
+describe('STARTER_API_ROUTES', () => {
+  it('should describe every route key consistently', () => {
+    for (const [key, route] of Object.entries(STARTER_API_ROUTES)) {
+      expect(key).toBe(`${route.method} ${route.path}`);
+    }
+  });
+
+  it('should leave only the root and health endpoints public', () => {
+    const publicRoutes = (Object.keys(STARTER_API_ROUTES) as RouteKey[]).filter(
+      (key) => !STARTER_API_ROUTES[key].auth
+    );
+
+    expect(publicRoutes).toEqual(['GET /', 'GET /health']);
+  });
+});
+
+describe('buildPath', () => {
+  it('should substitute and encode path params', () => {
+    const id = toHistoryId('3f2b8c1e-9d4a-4f6b-8e2c-7a1d5b9c0e4f');
+
+    expect(buildPath('/history/:id', { id })).toBe(`/history/${id}`);
+    expect(buildPath('/history/:id', { id: 'a/b c' as HistoryId })).toBe(
+      '/history/a%2Fb%20c'
+    );
+  });
+
+  it('should only accept history ids for history paths', () => {
+    const userId = toUserId('uid123');
+
+    // @ts-expect-error a UserId is not a HistoryId
+    expect(buildPath('/history/:id', { id: userId })).toBe('/history/uid123');
+    // @ts-expect-error plain strings must be validated first
+    expect(buildPath('/history/:id', { id: 'hist-1' })).toBe('/history/hist-1');
+  });
+
+  it('should return parameterless paths unchanged', () => {
+    expect(buildPath('/health')).toBe('/health');
+    expect(buildPath('/')).toBe('/');
+  });
+
+  it('should reject missing params at compile time and runtime', () => {
+    // @ts-expect-error params are required for templated paths
+    expect(() => buildPath('/history/:id')).toThrow(TypeError);
+    // @ts-expect-error the id param must be provided
+    expect(() => buildPath('/history/:id', {})).toThrow(TypeError);
+    expect(() => buildPath('/history/:id', { id: '' as HistoryId })).toThrow(
+      TypeError
+    );
+  });
+});
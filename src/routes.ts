@@ -0,0 +1,270 @@
+import type { BaseResponse } from '@sudobility/types';
+import type { HistoryBatchRequest, HistoryBatchResponse } from './batch.js';
+import type { PaginatedResponse } from './pagination.js';
+import type { HistoryQuery, HistoryTotalRequest } from './query.js';
+import type { HistoryStatsResponse } from './stats.js';
+import type {
+  ApiInfoResponse,
+  HealthResponse,
+  History,
+  HistoryCreateRequest,
+  HistoryId,
+  HistoryTotalResponse,
+  HistoryUpdateRequest,
+  User,
+} from './types.js';
+
+// =============================================================================
+// Path Template Types
+// =============================================================================
+
+/** HTTP methods used by the Starter API. */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Value types of named path placeholders. Placeholders not listed here take
+ * a plain `string`.
+ */
+export interface PathParamTypes {
+  /** `/history/:id` */
+  id: HistoryId;
+}
+
+type PathParamType<Name extends string> = Name extends keyof PathParamTypes
+  ? PathParamTypes[Name]
+  : string;
+
+/**
+ * Extracts the `:param` placeholders of a path template into an object type.
+ *
+ * @example
+ * ```typescript
+ * type P = PathParams<'/history/:id'>; // { id: HistoryId }
+ * type Q = PathParams<'/health'>; // {}
+ * ```
+ */
+export type PathParams<P extends string> =
+  P extends `${string}:${infer Param}/${infer Rest}`
+    ? { [K in Param]: PathParamType<K> } & PathParams<`/${Rest}`>
+    : P extends `${string}:${infer Param}`
+      ? { [K in Param]: PathParamType<K> }
+      : {};
+
+// =============================================================================
+// Route Contracts
+// =============================================================================
+
+/**
+ * The request and response shapes of a single endpoint.
+ *
+ * `query` and `body` are `undefined` for endpoints that take none.
+ */
+export interface RouteContract {
+  /** Path parameters substituted into the path template */
+  params: object;
+  /** Query-string parameters */
+  query: object | undefined;
+  /** JSON request body */
+  body: unknown;
+  /** Response envelope */
+  response: BaseResponse<unknown>;
+}
+
+/**
+ * Contract for every Starter API endpoint, keyed by `"METHOD /path/template"`.
+ *
+ * Server handlers and clients should both be typed through this map (via
+ * {@link RequestOf} / {@link ResponseOf}) so they cannot drift apart.
+ */
+export interface StarterApiRoutes {
+  'GET /': {
+    params: PathParams<'/'>;
+    query: undefined;
+    body: undefined;
+    response: BaseResponse<ApiInfoResponse>;
+  };
+  'GET /health': {
+    params: PathParams<'/health'>;
+    query: undefined;
+    body: undefined;
+    response: BaseResponse<HealthResponse>;
+  };
+  'GET /users/me': {
+    params: PathParams<'/users/me'>;
+    query: undefined;
+    body: undefined;
+    response: BaseResponse<User>;
+  };
+  'GET /history': {
+    params: PathParams<'/history'>;
+    query: HistoryQuery;
+    body: undefined;
+    response: PaginatedResponse<History>;
+  };
+  'POST /history': {
+    params: PathParams<'/history'>;
+    query: undefined;
+    body: HistoryCreateRequest;
+    response: BaseResponse<History>;
+  };
+  'POST /history/batch': {
+    params: PathParams<'/history/batch'>;
+    query: undefined;
+    body: HistoryBatchRequest;
+    response: HistoryBatchResponse;
+  };
+  'GET /history/total': {
+    params: PathParams<'/history/total'>;
+    query: HistoryTotalRequest;
+    body: undefined;
+    response: BaseResponse<HistoryTotalResponse>;
+  };
+  'GET /history/stats': {
+    params: PathParams<'/history/stats'>;
+    query: undefined;
+    body: undefined;
+    response: BaseResponse<HistoryStatsResponse>;
+  };
+  'GET /history/:id': {
+    params: PathParams<'/history/:id'>;
+    query: undefined;
+    body: undefined;
+    response: BaseResponse<History>;
+  };
+  'PATCH /history/:id': {
+    params: PathParams<'/history/:id'>;
+    query: undefined;
+    body: HistoryUpdateRequest;
+    response: BaseResponse<History>;
+  };
+  'DELETE /history/:id': {
+    params: PathParams<'/history/:id'>;
+    query: undefined;
+    body: undefined;
+    response: BaseResponse<null>;
+  };
+}
+
+/** Every endpoint key, e.g. `'PATCH /history/:id'`. */
+export type RouteKey = keyof StarterApiRoutes;
+
+/** The HTTP method of a route key. */
+export type MethodOf<K extends RouteKey> = K extends `${infer M} ${string}`
+  ? M
+  : never;
+
+/** The path template of a route key. */
+export type PathOf<K extends RouteKey> = K extends `${string} ${infer P}`
+  ? P
+  : never;
+
+/** Every path template, e.g. `'/history/:id'`. */
+export type RoutePath = PathOf<RouteKey>;
+
+/**
+ * The request side of an endpoint: path params, query and body.
+ *
+ * @example
+ * ```typescript
+ * type Req = RequestOf<'PATCH /history/:id'>;
+ * // { params: { id: HistoryId }; query: undefined; body: HistoryUpdateRequest }
+ * ```
+ */
+export type RequestOf<K extends RouteKey> = Pick<
+  StarterApiRoutes[K],
+  'params' | 'query' | 'body'
+>;
+
+/**
+ * The response envelope of an endpoint.
+ *
+ * @example
+ * ```typescript
+ * type Res = ResponseOf<'PATCH /history/:id'>; // BaseResponse<History>
+ * ```
+ */
+export type ResponseOf<K extends RouteKey> = StarterApiRoutes[K]['response'];
+
+/** The `data` payload type of an endpoint's response envelope. */
+export type PayloadOf<K extends RouteKey> =
+  ResponseOf<K> extends BaseResponse<infer T>
+    ? ResponseOf<K> extends PaginatedResponse<infer I>
+      ? I[]
+      : T
+    : never;
+
+// =============================================================================
+// Route Registry
+// =============================================================================
+
+/** Runtime description of a single endpoint. */
+export interface RouteDefinition {
+  /** HTTP method */
+  method: HttpMethod;
+  /** Path template with `:param` placeholders */
+  path: string;
+  /** Whether the endpoint requires a Firebase ID token */
+  auth: boolean;
+}
+
+/**
+ * Runtime registry of every Starter API endpoint, mirroring
+ * {@link StarterApiRoutes} so routers, clients and documentation generators
+ * can iterate the API surface.
+ */
+export const STARTER_API_ROUTES = {
+  'GET /': { method: 'GET', path: '/', auth: false },
+  'GET /health': { method: 'GET', path: '/health', auth: false },
+  'GET /users/me': { method: 'GET', path: '/users/me', auth: true },
+  'GET /history': { method: 'GET', path: '/history', auth: true },
+  'POST /history': { method: 'POST', path: '/history', auth: true },
+  'POST /history/batch': {
+    method: 'POST',
+    path: '/history/batch',
+    auth: true,
+  },
+  'GET /history/total': { method: 'GET', path: '/history/total', auth: true },
+  'GET /history/stats': { method: 'GET', path: '/history/stats', auth: true },
+  'GET /history/:id': { method: 'GET', path: '/history/:id', auth: true },
+  'PATCH /history/:id': { method: 'PATCH', path: '/history/:id', auth: true },
+  'DELETE /history/:id': {
+    method: 'DELETE',
+    path: '/history/:id',
+    auth: true,
+  },
+} as const satisfies Record<RouteKey, RouteDefinition>;
+
+// =============================================================================
+// Path Building
+// =============================================================================
+
+/**
+ * Substitutes path parameters into a route path template.
+ *
+ * Parameter values are URI-encoded. Templates without placeholders take no
+ * params argument; templates with placeholders require every one of them.
+ *
+ * @param path - A path template from {@link StarterApiRoutes}
+ * @param params - Values for each `:param` placeholder
+ * @returns The concrete request path
+ * @throws {TypeError} If a parameter is missing or empty at runtime
+ *
+ * @example
+ * ```typescript
+ * buildPath('/history/:id', { id: history.id }); // '/history/3f2b8c1e-...'
+ * buildPath('/health'); // '/health'
+ * buildPath('/history/:id'); // compile error: params required
+ * ```
+ */
+export function buildPath<P extends RoutePath>(
+  path: P,
+  ...[params]: keyof PathParams<P> extends never ? [] : [PathParams<P>]
+): string {
+  return path.replace(/:([A-Za-z_][A-Za-z0-9_]*)/g, (_match, name: string) => {
+    const value = (params as Record<string, string> | undefined)?.[name];
+    if (typeof value !== 'string' || value === '') {
+      throw new TypeError(`Missing path parameter "${name}" for ${path}`);
+    }
+    return encodeURIComponent(value);
+  });
+}
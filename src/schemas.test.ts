@@ -0,0 +1,555 @@
+import { describe, it, expect } from 'vitest';
+import {
+  STARTER_JSON_SCHEMA,
+  STARTER_SCHEMA_DEFS,
+  JSON_SCHEMA_DIALECT,
+  getJsonSchema,
+  historyConflictResponse,
+  responseSchema,
+  paginatedResponseSchema,
+  successResponse,
+  errorResponse,
+  paginatedResponse,
+  isISODateString,
+  toHistoryId,
+  toISODateString,
+  toUserId,
+  validateUserUpdateRequest,
+  type ApiInfoResponse,
+  type BatchResult,
+  type BatchSummary,
+  type HistoryBatchRequest,
+  type HistoryConflictResponse,
+  type HealthCheck,
+  type HealthResponse,
+  type History,
+  type HistoryCreateRequest,
+  type HistoryQuery,
+  type HistorySeriesPoint,
+  type HistorySeriesRequest,
+  type HistorySeriesResponse,
+  type HistoryStatsResponse,
+  type HistoryDateRange,
+  type HistoryTotalRequest,
+  type HistoryTotalResponse,
+  type HistoryUpdateRequest,
+  type JsonSchema,
+  type PageInfo,
+  type DeprecationNotice,
+  type ResponseMeta,
+  type FieldError,
+  type StarterSchemaName,
+  type User,
+  type UserUpdateRequest,
+} from './index.js';
+
+// RFC 3339 `date-time`: seconds and an offset are required, unlike the
+// lenient parser, which also accepts e.g. `2025-01-15T12:30+02:00`.
+const RFC_3339_DATE_TIME =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Minimal draft 2020-12 validator covering the keywords the package emits,
+ * so the schemas can be exercised without an external dependency.
+ */
+function validate(schema: JsonSchema, value: unknown): boolean {
+  if (schema.$ref) {
+    const name = schema.$ref.replace('#/$defs/', '') as StarterSchemaName;
+    return validate(STARTER_SCHEMA_DEFS[name], value);
+  }
+  if (schema.oneOf) {
+    return schema.oneOf.filter((s) => validate(s, value)).length === 1;
+  }
+  if ('const' in schema && value !== schema.const) return false;
+  if (schema.enum && !schema.enum.includes(value)) return false;
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual =
+      value === null
+        ? 'null'
+        : Array.isArray(value)
+          ? 'array'
+          : Number.isInteger(value) && types.includes('integer')
+            ? 'integer'
+            : typeof value;
+    if (!types.includes(actual)) return false;
+  }
+  if (
+    typeof value === 'string' &&
+    schema.pattern !== undefined &&
+    !new RegExp(schema.pattern).test(value)
+  ) {
+    return false;
+  }
+  if (typeof value === 'string' && schema.format === 'date-time') {
+    // The pattern checks the shape; the parser range-checks the calendar.
+    if (
+      !RFC_3339_DATE_TIME.test(value) ||
+      !isISODateString(value, { mode: 'lenient' })
+    )
+      return false;
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) return false;
+    if (schema.maximum !== undefined && value > schema.maximum) return false;
+    if (
+      schema.exclusiveMinimum !== undefined &&
+      value <= schema.exclusiveMinimum
+    )
+      return false;
+  }
+  if (Array.isArray(value) && schema.items) {
+    return value.every((item) => validate(schema.items!, item));
+  }
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    const keys = Object.keys(record);
+    if (schema.required?.some((key) => !(key in record))) return false;
+    if (schema.anyOf && !schema.anyOf.some((s) => validate(s, record)))
+      return false;
+    if (
+      schema.minProperties !== undefined &&
+      keys.length < schema.minProperties
+    )
+      return false;
+    for (const key of keys) {
+      const property = schema.properties?.[key];
+      if (property) {
+        if (!validate(property, record[key])) return false;
+      } else if (schema.additionalProperties === false) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+const datetime = toISODateString('2025-01-15T10:30:00.000Z');
+
+const history: History = {
+  id: toHistoryId('3f2b8c1e-9d4a-4f6b-8e2c-7a1d5b9c0e4f'),
+  user_id: toUserId('uid123'),
+  datetime,
+  value: 42.5,
+  created_at: datetime,
+  updated_at: null,
+  revision: 1,
+};
+
+/**
+ * Fully populated and minimal samples per schema, each typed against its
+ * TypeScript type. Test files are excluded from `tsconfig.json`, so only
+ * the editor checks this, not `npm run typecheck`. The full sample must
+ * name every property in the schema; the minimal one exactly the required
+ * ones.
+ */
+const samples: {
+  [
+    K in Exclude<
+      StarterSchemaName,
+      | 'ISODateString'
+      | 'ErrorCode'
+      | 'ErrorResponse'
+      | 'HistoryBatchOperation'
+      | 'HealthStatus'
+      | 'UserId'
+      | 'HistoryId'
+    >
+  ]: { full: object; minimal: object };
+} = {
+  User: {
+    full: {
+      firebase_uid: toUserId('uid123'),
+      email: 'user@example.com',
+      display_name: 'John Doe',
+      created_at: datetime,
+      updated_at: null,
+    } satisfies User,
+    minimal: {
+      firebase_uid: toUserId('uid123'),
+      email: null,
+      display_name: null,
+      created_at: null,
+      updated_at: null,
+    } satisfies User,
+  },
+  History: { full: history, minimal: history },
+  HistoryCreateRequest: {
+    full: { datetime, value: 1 } satisfies HistoryCreateRequest,
+    minimal: { datetime, value: 1 } satisfies HistoryCreateRequest,
+  },
+  UserUpdateRequest: {
+    full: {
+      email: 'user@example.com',
+      display_name: null,
+    } satisfies Required<UserUpdateRequest>,
+    minimal: {},
+  },
+  HistoryUpdateRequest: {
+    full: {
+      datetime,
+      value: 1,
+      expected_revision: 1,
+    } satisfies Required<HistoryUpdateRequest>,
+    minimal: {},
+  },
+  HistoryBatchRequest: {
+    full: {
+      operations: [
+        { op: 'create', client_id: 'a', body: { datetime, value: 1 } },
+        { op: 'update', client_id: 'b', id: history.id, body: { value: 2 } },
+        {
+          op: 'delete',
+          client_id: 'c',
+          id: toHistoryId('9b1e4c7a-2d3f-4a5b-8c6d-0e1f2a3b4c5d'),
+        },
+      ],
+    } satisfies HistoryBatchRequest,
+    minimal: {
+      operations: [
+        {
+          op: 'delete',
+          client_id: 'c',
+          id: toHistoryId('9b1e4c7a-2d3f-4a5b-8c6d-0e1f2a3b4c5d'),
+        },
+      ],
+    } satisfies HistoryBatchRequest,
+  },
+  BatchSummary: {
+    full: { total: 2, succeeded: 1, failed: 1 } satisfies BatchSummary,
+    minimal: { total: 0, succeeded: 0, failed: 0 } satisfies BatchSummary,
+  },
+  HistoryBatchResult: {
+    full: {
+      items: [
+        { client_id: 'a', success: true, data: history },
+        { client_id: 'c', success: true, data: null },
+        {
+          client_id: 'b',
+          success: false,
+          error: 'History not found',
+          code: 'NOT_FOUND',
+        },
+      ],
+      summary: { total: 3, succeeded: 2, failed: 1 },
+    } satisfies BatchResult<History | null>,
+    minimal: {
+      items: [],
+      summary: { total: 0, succeeded: 0, failed: 0 },
+    } satisfies BatchResult<History | null>,
+  },
+  HistoryQuery: {
+    full: {
+      from: datetime,
+      to: datetime,
+      min_value: 1,
+      max_value: 2,
+      sort: 'value',
+      order: 'asc',
+      limit: 10,
+      cursor: 'abc',
+    } satisfies Required<HistoryQuery>,
+    minimal: {},
+  },
+  HistoryTotalRequest: {
+    full: {
+      from: datetime,
+      to: datetime,
+      preset: 'today',
+      time_zone: 'UTC',
+    } satisfies Required<HistoryTotalRequest>,
+    minimal: {},
+  },
+  HistoryDateRange: {
+    full: { from: datetime, to: null } satisfies HistoryDateRange,
+    minimal: { from: null, to: null } satisfies HistoryDateRange,
+  },
+  HistoryTotalResponse: {
+    full: {
+      total: 3,
+      range: { from: datetime, to: datetime },
+    } satisfies Required<HistoryTotalResponse>,
+    minimal: { total: 3 } satisfies HistoryTotalResponse,
+  },
+  HistoryStatsResponse: {
+    full: {
+      count: 1,
+      sum: 2,
+      min: 2,
+      max: 2,
+      mean: 2,
+      median: 2,
+      std_dev: 0,
+      first_datetime: datetime,
+      last_datetime: datetime,
+    } satisfies HistoryStatsResponse,
+    minimal: {
+      count: 0,
+      sum: 0,
+      min: null,
+      max: null,
+      mean: null,
+      median: null,
+      std_dev: null,
+      first_datetime: null,
+      last_datetime: null,
+    } satisfies HistoryStatsResponse,
+  },
+  HistorySeriesRequest: {
+    full: {
+      granularity: 'day',
+      time_zone: 'Europe/Berlin',
+      aggregate: 'sum',
+      from: datetime,
+      to: datetime,
+    } satisfies Required<HistorySeriesRequest>,
+    minimal: {
+      granularity: 'day',
+      time_zone: 'Europe/Berlin',
+      aggregate: 'sum',
+    } satisfies HistorySeriesRequest,
+  },
+  HistorySeriesPoint: {
+    full: {
+      start: datetime,
+      end: datetime,
+      value: null,
+      count: 0,
+    } satisfies HistorySeriesPoint,
+    minimal: {
+      start: datetime,
+      end: datetime,
+      value: 3,
+      count: 1,
+    } satisfies HistorySeriesPoint,
+  },
+  HistorySeriesResponse: {
+    full: {
+      granularity: 'week',
+      time_zone: 'UTC',
+      aggregate: 'avg',
+      points: [{ start: datetime, end: datetime, value: 2, count: 1 }],
+    } satisfies HistorySeriesResponse,
+    minimal: {
+      granularity: 'week',
+      time_zone: 'UTC',
+      aggregate: 'avg',
+      points: [],
+    } satisfies HistorySeriesResponse,
+  },
+  ApiInfoResponse: {
+    full: {
+      name: 'Starter API',
+      version: '1.0.0',
+      status: 'ok',
+    } satisfies ApiInfoResponse,
+    minimal: {
+      name: 'Starter API',
+      version: '1.0.0',
+      status: 'ok',
+    } satisfies ApiInfoResponse,
+  },
+  HealthResponse: {
+    full: {
+      status: 'degraded',
+      version: '1.0.0',
+      checks: [{ component: 'cache', status: 'down', latency_ms: 2000 }],
+    } satisfies HealthResponse,
+    minimal: { status: 'ok', version: '1.0.0' } satisfies HealthResponse,
+  },
+  HealthCheck: {
+    full: {
+      component: 'cache',
+      status: 'down',
+      latency_ms: 2000,
+      message: 'timed out after 2000ms',
+    } satisfies Required<HealthCheck>,
+    minimal: {
+      component: 'database',
+      status: 'ok',
+      latency_ms: null,
+    } satisfies HealthCheck,
+  },
+  PageInfo: {
+    full: {
+      limit: 20,
+      hasMore: true,
+      nextCursor: 'abc',
+      total: 40,
+    } satisfies Required<PageInfo>,
+    minimal: {
+      limit: 20,
+      hasMore: false,
+      nextCursor: null,
+    } satisfies PageInfo,
+  },
+  DeprecationNotice: {
+    full: {
+      message: 'Use GET /history/stats',
+      sunset: datetime,
+      link: 'https://docs.example.com/stats',
+    } satisfies Required<DeprecationNotice>,
+    minimal: { message: 'Use GET /history/stats' } satisfies DeprecationNotice,
+  },
+  ResponseMeta: {
+    full: {
+      requestId: 'req_8f2c',
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      durationMs: 12.4,
+      apiVersion: '1.4.0',
+      deprecation: { message: 'Use GET /history/stats' },
+    } satisfies Required<ResponseMeta>,
+    minimal: {} satisfies ResponseMeta,
+  },
+  FieldError: {
+    full: {
+      field: 'value',
+      code: 'not_positive',
+      message: 'value must be greater than 0',
+    } satisfies FieldError,
+    minimal: {
+      field: 'value',
+      code: 'not_positive',
+      message: 'value must be greater than 0',
+    } satisfies FieldError,
+  },
+  HistoryConflictResponse: {
+    full: {
+      ...historyConflictResponse(history, 1, {
+        meta: { requestId: 'req-1' },
+      }),
+      fieldErrors: [],
+    } satisfies HistoryConflictResponse,
+    minimal: historyConflictResponse(history, 1),
+  },
+};
+
+describe('JSON schemas', () => {
+  it('should declare the 2020-12 dialect', () => {
+    expect(STARTER_JSON_SCHEMA.$schema).toBe(JSON_SCHEMA_DIALECT);
+    expect(getJsonSchema('History')).toMatchObject({
+      $schema: JSON_SCHEMA_DIALECT,
+      $ref: '#/$defs/History',
+    });
+  });
+
+  it('should stay in lock-step with the TypeScript types', () => {
+    for (const [name, { full, minimal }] of Object.entries(samples)) {
+      const schema: JsonSchema = STARTER_SCHEMA_DEFS[name as StarterSchemaName];
+
+      expect(Object.keys(schema.properties ?? {}).sort(), name).toEqual(
+        Object.keys(full).sort()
+      );
+      expect([...(schema.required ?? [])].sort(), name).toEqual(
+        Object.keys(minimal).sort()
+      );
+      expect(validate(getJsonSchema(name as StarterSchemaName), full)).toBe(
+        true
+      );
+      // Update requests have no required keys but need at least one field.
+      expect(validate(getJsonSchema(name as StarterSchemaName), minimal)).toBe(
+        schema.minProperties === undefined && schema.anyOf === undefined
+      );
+    }
+  });
+
+  it('should encode the documented constraints', () => {
+    const create = getJsonSchema('HistoryCreateRequest');
+    const batch = getJsonSchema('HistoryBatchRequest');
+
+    expect(
+      validate(batch, {
+        operations: [
+          { op: 'update', client_id: 'b', id: history.id, body: {} },
+        ],
+      })
+    ).toBe(false);
+    expect(
+      validate(batch, {
+        operations: [
+          { op: 'delete', client_id: 'c', id: history.id, body: {} },
+        ],
+      })
+    ).toBe(false);
+
+    expect(
+      validate(batch, {
+        operations: [{ op: 'delete', client_id: 'c', id: 'hist-1' }],
+      })
+    ).toBe(false);
+
+    expect(validate(create, { datetime, value: 0 })).toBe(false);
+    expect(validate(create, { datetime: 'tomorrow', value: 1 })).toBe(false);
+    expect(
+      validate(create, { datetime: '2025-01-15T12:30:00+02:00', value: 1 })
+    ).toBe(true);
+    // RFC 3339 requires seconds, which the lenient runtime parser does not.
+    expect(
+      validate(create, { datetime: '2025-01-15T12:30+02:00', value: 1 })
+    ).toBe(false);
+    expect(validate(create, { datetime, value: 1, id: 'x' })).toBe(false);
+    expect(validate(getJsonSchema('HistoryUpdateRequest'), {})).toBe(false);
+    expect(
+      validate(getJsonSchema('HistoryUpdateRequest'), { expected_revision: 2 })
+    ).toBe(false);
+    expect(
+      validate(getJsonSchema('HistoryUpdateRequest'), {
+        value: 2,
+        expected_revision: 2,
+      })
+    ).toBe(true);
+    expect(
+      validate(getJsonSchema('User'), { ...samples.User.full, email: 1 })
+    ).toBe(false);
+    expect(
+      validate(getJsonSchema('User'), {
+        ...samples.User.full,
+        firebase_uid: 'uid 123',
+      })
+    ).toBe(false);
+  });
+
+  it('should accept the internationalized emails the validator accepts', () => {
+    const email = STARTER_SCHEMA_DEFS.UserUpdateRequest.properties?.email;
+
+    expect(email?.format).toBe('idn-email');
+    expect(validateUserUpdateRequest({ email: 'josé@exämple.com' }).valid).toBe(
+      true
+    );
+  });
+
+  it('should describe success and error envelopes', () => {
+    const schema = responseSchema({ $ref: '#/$defs/History' });
+
+    expect(validate(schema, successResponse(history))).toBe(true);
+    expect(
+      validate(
+        schema,
+        errorResponse('Validation failed', {
+          code: 'VALIDATION_FAILED',
+          fieldErrors: [samples.FieldError.full as FieldError],
+        })
+      )
+    ).toBe(true);
+    expect(validate(schema, errorResponse('plain'))).toBe(true);
+    expect(validate(schema, successResponse({ ...history, value: -1 }))).toBe(
+      false
+    );
+  });
+
+  it('should describe paginated envelopes', () => {
+    const schema = paginatedResponseSchema({ $ref: '#/$defs/History' });
+
+    expect(
+      validate(
+        schema,
+        paginatedResponse([history], {
+          limit: 20,
+          hasMore: false,
+          nextCursor: null,
+        })
+      )
+    ).toBe(true);
+    expect(validate(schema, successResponse([history]))).toBe(false);
+  });
+});
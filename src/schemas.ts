@@ -0,0 +1,855 @@
+import {
+  MAX_BATCH_OPERATIONS,
+  type BatchResult,
+  type BatchSummary,
+  type HistoryBatchOperation,
+  type HistoryBatchRequest,
+} from './batch.js';
+import type { HistoryConflictDetails } from './concurrency.js';
+import { ERROR_CODES } from './errors.js';
+import { HEALTH_STATUSES, type HealthCheck } from './health.js';
+import {
+  HISTORY_ID_PATTERN,
+  MAX_USER_ID_LENGTH,
+  USER_ID_PATTERN,
+} from './ids.js';
+import type { DeprecationNotice, ResponseMeta } from './meta.js';
+import { MAX_PAGE_LIMIT, type PageInfo } from './pagination.js';
+import type { HistoryQuery, HistoryTotalRequest } from './query.js';
+import type { HistoryDateRange } from './ranges.js';
+import type {
+  HistorySeriesPoint,
+  HistorySeriesRequest,
+  HistorySeriesResponse,
+} from './series.js';
+import type { HistoryStatsResponse } from './stats.js';
+import type {
+  ApiInfoResponse,
+  HealthResponse,
+  History,
+  HistoryCreateRequest,
+  HistoryTotalResponse,
+  HistoryUpdateRequest,
+  User,
+  UserUpdateRequest,
+} from './types.js';
+import {
+  MAX_DISPLAY_NAME_LENGTH,
+  MAX_EMAIL_LENGTH,
+  type FieldError,
+  type FieldErrorCode,
+} from './validation.js';
+
+// =============================================================================
+// Schema Types
+// =============================================================================
+
+/** The JSON Schema dialect of every schema in this module. */
+export const JSON_SCHEMA_DIALECT =
+  'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * A JSON Schema (draft 2020-12) document or subschema.
+ *
+ * Only the keywords this package emits are listed; the index signature keeps
+ * the type open for consumers that add their own.
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: string | string[];
+  format?: string;
+  enum?: readonly unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  additionalProperties?: boolean | JsonSchema;
+  minProperties?: number;
+  items?: JsonSchema;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  [keyword: string]: unknown;
+}
+
+/** Keys of `T` that are neither optional nor allowed to be `undefined`. */
+type RequiredKeys<T> = {
+  [K in keyof T]-?: undefined extends T[K] ? never : K;
+}[keyof T];
+
+/**
+ * Builds an object schema whose `properties` must name every key of `T` and
+ * whose `required` list may only name `T`'s required keys, so the compiler
+ * flags a schema that drifts from its interface.
+ */
+function objectSchema<T>(schema: {
+  description: string;
+  properties: { [K in keyof T & string]-?: JsonSchema };
+  required: readonly (RequiredKeys<T> & string)[];
+  additionalProperties?: boolean;
+  minProperties?: number;
+  anyOf?: JsonSchema[];
+}): JsonSchema {
+  return { type: 'object', ...schema };
+}
+
+function ref(name: StarterSchemaName): JsonSchema {
+  return { $ref: `#/$defs/${name}` };
+}
+
+// A record rather than an array so adding a FieldErrorCode fails to compile
+// until the schema enum is updated too.
+const FIELD_ERROR_CODES: Record<FieldErrorCode, true> = {
+  missing: true,
+  invalid_type: true,
+  not_finite: true,
+  invalid_number: true,
+  not_positive: true,
+  invalid_date: true,
+  unknown_field: true,
+  empty_update: true,
+  invalid_body: true,
+  invalid_value: true,
+  invalid_range: true,
+};
+
+function batchOperationSchema(
+  op: HistoryBatchOperation['op'],
+  properties: Record<string, JsonSchema>
+): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      op: { const: op },
+      client_id: { type: 'string', minLength: 1 },
+      ...properties,
+    },
+    required: ['op', 'client_id', ...Object.keys(properties)],
+    additionalProperties: false,
+  };
+}
+
+const nullableDate: JsonSchema = {
+  type: ['string', 'null'],
+  format: 'date-time',
+};
+
+// =============================================================================
+// Definitions
+// =============================================================================
+
+/**
+ * JSON Schema definitions for the package's domain, request and response
+ * types, keyed by TypeScript type name.
+ *
+ * Request bodies set `additionalProperties: false` to match the runtime
+ * validators; domain and response objects leave it open so new fields can be
+ * added without breaking older consumers.
+ *
+ * `format: 'date-time'` means RFC 3339, which requires seconds and an
+ * offset; the runtime validators are more lenient and also accept
+ * datetimes without seconds.
+ */
+export const STARTER_SCHEMA_DEFS = {
+  ISODateString: {
+    description: 'ISO 8601 formatted datetime string',
+    type: 'string',
+    format: 'date-time',
+  },
+  UserId: {
+    description: 'Firebase Authentication UID',
+    type: 'string',
+    minLength: 1,
+    maxLength: MAX_USER_ID_LENGTH,
+    pattern: USER_ID_PATTERN.source,
+  },
+  HistoryId: {
+    description: 'Id of a history record: a lowercase UUID',
+    type: 'string',
+    format: 'uuid',
+    pattern: HISTORY_ID_PATTERN.source,
+  },
+  User: objectSchema<User>({
+    description: 'User account information',
+    properties: {
+      firebase_uid: { $ref: '#/$defs/UserId' },
+      email: {
+        description: 'User email address, nullable',
+        type: ['string', 'null'],
+      },
+      display_name: {
+        description: 'User display name, nullable',
+        type: ['string', 'null'],
+      },
+      created_at: {
+        description: 'ISO 8601 timestamp of account creation, nullable',
+        ...nullableDate,
+      },
+      updated_at: {
+        description: 'ISO 8601 timestamp of last update, nullable',
+        ...nullableDate,
+      },
+    },
+    required: [
+      'firebase_uid',
+      'email',
+      'display_name',
+      'created_at',
+      'updated_at',
+    ],
+  }),
+  UserUpdateRequest: objectSchema<UserUpdateRequest>({
+    description:
+      "Request body for updating the current user's profile; null clears a field",
+    properties: {
+      email: {
+        description: 'New email address, Unicode allowed (RFC 6531)',
+        type: ['string', 'null'],
+        format: 'idn-email',
+        maxLength: MAX_EMAIL_LENGTH,
+      },
+      display_name: {
+        description: 'New display name',
+        type: ['string', 'null'],
+        minLength: 1,
+        maxLength: MAX_DISPLAY_NAME_LENGTH,
+      },
+    },
+    required: [],
+    additionalProperties: false,
+    minProperties: 1,
+  }),
+  History: objectSchema<History>({
+    description: 'Core domain entity representing a historical data point',
+    properties: {
+      id: { $ref: '#/$defs/HistoryId' },
+      user_id: { $ref: '#/$defs/UserId' },
+      datetime: {
+        description: 'ISO 8601 formatted datetime when the event occurred',
+        type: 'string',
+        format: 'date-time',
+      },
+      value: {
+        description: 'Numeric value associated with this history record',
+        type: 'number',
+        exclusiveMinimum: 0,
+      },
+      created_at: {
+        description: 'ISO 8601 timestamp when the record was created, nullable',
+        ...nullableDate,
+      },
+      updated_at: {
+        description: 'ISO 8601 timestamp of the last update, nullable',
+        ...nullableDate,
+      },
+      revision: {
+        description: 'Revision of the record, incremented by every update',
+        type: 'integer',
+        minimum: 1,
+      },
+    },
+    required: [
+      'id',
+      'user_id',
+      'datetime',
+      'value',
+      'created_at',
+      'updated_at',
+      'revision',
+    ],
+  }),
+  HistoryCreateRequest: objectSchema<HistoryCreateRequest>({
+    description: 'Request body for creating a new history record',
+    properties: {
+      datetime: {
+        description: 'ISO 8601 formatted datetime when the event occurred',
+        type: 'string',
+        format: 'date-time',
+      },
+      value: {
+        description: 'Numeric value associated with the record',
+        type: 'number',
+        exclusiveMinimum: 0,
+      },
+    },
+    required: ['datetime', 'value'],
+    additionalProperties: false,
+  }),
+  HistoryUpdateRequest: objectSchema<HistoryUpdateRequest>({
+    description:
+      'Request body for updating an existing history record; datetime or value is required',
+    properties: {
+      datetime: {
+        description: 'ISO 8601 formatted datetime',
+        type: 'string',
+        format: 'date-time',
+      },
+      value: {
+        description: 'Numeric value',
+        type: 'number',
+        exclusiveMinimum: 0,
+      },
+      expected_revision: {
+        description:
+          'Revision the client last saw; the update is rejected with CONFLICT if the record has moved on',
+        type: 'integer',
+        minimum: 1,
+      },
+    },
+    required: [],
+    additionalProperties: false,
+    anyOf: [{ required: ['datetime'] }, { required: ['value'] }],
+  }),
+  HistoryBatchOperation: {
+    description:
+      'One operation in a history batch; client_id is echoed on its result',
+    oneOf: [
+      batchOperationSchema('create', {
+        body: { $ref: '#/$defs/HistoryCreateRequest' },
+      }),
+      batchOperationSchema('update', {
+        id: { $ref: '#/$defs/HistoryId' },
+        body: { $ref: '#/$defs/HistoryUpdateRequest' },
+      }),
+      batchOperationSchema('delete', {
+        id: { $ref: '#/$defs/HistoryId' },
+      }),
+    ],
+  },
+  HistoryBatchRequest: objectSchema<HistoryBatchRequest>({
+    description:
+      'Mixed create, update and delete operations applied in order and independently',
+    properties: {
+      operations: {
+        description: 'Operations with unique client_ids',
+        type: 'array',
+        items: { $ref: '#/$defs/HistoryBatchOperation' },
+        minItems: 1,
+        maxItems: MAX_BATCH_OPERATIONS,
+      },
+    },
+    required: ['operations'],
+    additionalProperties: false,
+  }),
+  BatchSummary: objectSchema<BatchSummary>({
+    description: 'Counts over the items of a batch',
+    properties: {
+      total: { type: 'integer', minimum: 0 },
+      succeeded: { type: 'integer', minimum: 0 },
+      failed: { type: 'integer', minimum: 0 },
+    },
+    required: ['total', 'succeeded', 'failed'],
+  }),
+  HistoryBatchResult: objectSchema<BatchResult<History | null>>({
+    description: 'Per-operation results of a history batch, in request order',
+    properties: {
+      items: {
+        type: 'array',
+        items: {
+          oneOf: [
+            {
+              type: 'object',
+              properties: {
+                client_id: { type: 'string' },
+                success: { const: true },
+                data: {
+                  description: 'The written record, or null for deletes',
+                  oneOf: [{ $ref: '#/$defs/History' }, { type: 'null' }],
+                },
+              },
+              required: ['client_id', 'success', 'data'],
+            },
+            {
+              type: 'object',
+              properties: {
+                client_id: { type: 'string' },
+                success: { const: false },
+                error: { type: 'string' },
+                code: { $ref: '#/$defs/ErrorCode' },
+                details: { type: 'object' },
+                fieldErrors: {
+                  type: 'array',
+                  items: { $ref: '#/$defs/FieldError' },
+                },
+              },
+              required: ['client_id', 'success', 'error', 'code'],
+            },
+          ],
+        },
+      },
+      summary: { $ref: '#/$defs/BatchSummary' },
+    },
+    required: ['items', 'summary'],
+  }),
+  HistoryQuery: objectSchema<HistoryQuery>({
+    description: 'Filter, sort and paging options for listing history',
+    properties: {
+      from: {
+        description: 'Inclusive lower bound on datetime',
+        type: 'string',
+        format: 'date-time',
+      },
+      to: {
+        description: 'Exclusive upper bound on datetime',
+        type: 'string',
+        format: 'date-time',
+      },
+      min_value: {
+        description: 'Inclusive lower bound on value',
+        type: 'number',
+      },
+      max_value: {
+        description: 'Inclusive upper bound on value',
+        type: 'number',
+      },
+      sort: { description: 'Field to sort by', enum: ['datetime', 'value'] },
+      order: { description: 'Sort direction', enum: ['asc', 'desc'] },
+      limit: {
+        description: 'Page size',
+        type: 'integer',
+        minimum: 1,
+        maximum: MAX_PAGE_LIMIT,
+      },
+      cursor: {
+        description:
+          'Opaque cursor from a previous page; only valid with the default sort and order',
+        type: 'string',
+      },
+    },
+    required: [],
+    additionalProperties: false,
+  }),
+  HistoryTotalRequest: objectSchema<HistoryTotalRequest>({
+    description:
+      'Range of history to total: explicit bounds or a preset, not both',
+    properties: {
+      from: {
+        description: 'Inclusive lower bound on datetime',
+        type: 'string',
+        format: 'date-time',
+      },
+      to: {
+        description: 'Exclusive upper bound on datetime',
+        type: 'string',
+        format: 'date-time',
+      },
+      preset: {
+        description: 'Calendar period containing the current time',
+        enum: ['today', 'this_week', 'this_month'],
+      },
+      time_zone: {
+        description: 'IANA time zone used to resolve preset, defaults to UTC',
+        type: 'string',
+        minLength: 1,
+      },
+    },
+    required: [],
+    additionalProperties: false,
+  }),
+  HistoryDateRange: objectSchema<HistoryDateRange>({
+    description: 'A half-open datetime range; null bounds are open',
+    properties: {
+      from: { description: 'Inclusive lower bound', ...nullableDate },
+      to: { description: 'Exclusive upper bound', ...nullableDate },
+    },
+    required: ['from', 'to'],
+  }),
+  HistoryTotalResponse: objectSchema<HistoryTotalResponse>({
+    description: 'Total sum of all history records for a user',
+    properties: {
+      total: {
+        description: 'Sum of all values for the queried history records',
+        type: 'number',
+      },
+      range: { $ref: '#/$defs/HistoryDateRange' },
+    },
+    required: ['total'],
+  }),
+  HistoryStatsResponse: objectSchema<HistoryStatsResponse>({
+    description:
+      'Summary statistics over history records; all but count and sum are null for an empty set',
+    properties: {
+      count: { description: 'Number of records', type: 'integer', minimum: 0 },
+      sum: { description: 'Sum of all values', type: 'number' },
+      min: { description: 'Smallest value', type: ['number', 'null'] },
+      max: { description: 'Largest value', type: ['number', 'null'] },
+      mean: { description: 'Arithmetic mean', type: ['number', 'null'] },
+      median: { description: 'Median value', type: ['number', 'null'] },
+      std_dev: {
+        description: 'Population standard deviation',
+        type: ['number', 'null'],
+        minimum: 0,
+      },
+      first_datetime: {
+        description: 'Earliest record datetime',
+        ...nullableDate,
+      },
+      last_datetime: { description: 'Latest record datetime', ...nullableDate },
+    },
+    required: [
+      'count',
+      'sum',
+      'min',
+      'max',
+      'mean',
+      'median',
+      'std_dev',
+      'first_datetime',
+      'last_datetime',
+    ],
+  }),
+  HistorySeriesRequest: objectSchema<HistorySeriesRequest>({
+    description: 'Query for a time-bucketed history series',
+    properties: {
+      granularity: {
+        description: 'Bucket size; weeks start on Monday',
+        enum: ['hour', 'day', 'week', 'month'],
+      },
+      time_zone: {
+        description: 'IANA time zone whose calendar defines bucket boundaries',
+        type: 'string',
+        minLength: 1,
+      },
+      aggregate: {
+        description: 'Aggregate applied to the values in each bucket',
+        enum: ['sum', 'avg', 'min', 'max', 'count'],
+      },
+      from: {
+        description: 'Inclusive lower bound on datetime',
+        type: 'string',
+        format: 'date-time',
+      },
+      to: {
+        description: 'Exclusive upper bound on datetime',
+        type: 'string',
+        format: 'date-time',
+      },
+    },
+    required: ['granularity', 'time_zone', 'aggregate'],
+    additionalProperties: false,
+  }),
+  HistorySeriesPoint: objectSchema<HistorySeriesPoint>({
+    description: 'One bucket of a history series',
+    properties: {
+      start: {
+        description: 'Inclusive start of the bucket',
+        type: 'string',
+        format: 'date-time',
+      },
+      end: {
+        description: 'Exclusive end of the bucket',
+        type: 'string',
+        format: 'date-time',
+      },
+      value: {
+        description:
+          'Aggregated value; null for empty avg, min and max buckets',
+        type: ['number', 'null'],
+      },
+      count: {
+        description: 'Number of records in the bucket',
+        type: 'integer',
+        minimum: 0,
+      },
+    },
+    required: ['start', 'end', 'value', 'count'],
+  }),
+  HistorySeriesResponse: objectSchema<HistorySeriesResponse>({
+    description: 'A history series: the request settings plus its buckets',
+    properties: {
+      granularity: {
+        description: 'Bucket size',
+        enum: ['hour', 'day', 'week', 'month'],
+      },
+      time_zone: { description: 'IANA time zone', type: 'string' },
+      aggregate: {
+        description: 'Aggregate',
+        enum: ['sum', 'avg', 'min', 'max', 'count'],
+      },
+      points: {
+        description: 'Consecutive buckets in chronological order',
+        type: 'array',
+        items: { $ref: '#/$defs/HistorySeriesPoint' },
+      },
+    },
+    required: ['granularity', 'time_zone', 'aggregate', 'points'],
+  }),
+  ApiInfoResponse: objectSchema<ApiInfoResponse>({
+    description: 'Response for the root API metadata endpoint',
+    properties: {
+      name: { description: 'The name of the API', type: 'string' },
+      version: { description: 'The API version string', type: 'string' },
+      status: { $ref: '#/$defs/HealthStatus' },
+    },
+    required: ['name', 'version', 'status'],
+  }),
+  HealthStatus: {
+    description: 'Overall or per-component health',
+    enum: HEALTH_STATUSES,
+  },
+  HealthCheck: objectSchema<HealthCheck>({
+    description: 'Outcome of checking one component',
+    properties: {
+      component: {
+        description: 'The checked dependency',
+        enum: ['database', 'auth_provider', 'cache'],
+      },
+      status: { $ref: '#/$defs/HealthStatus' },
+      latency_ms: {
+        description: 'How long the check took, in milliseconds',
+        type: ['number', 'null'],
+        minimum: 0,
+      },
+      message: { description: 'Human-readable detail', type: 'string' },
+    },
+    required: ['component', 'status', 'latency_ms'],
+  }),
+  HealthResponse: objectSchema<HealthResponse>({
+    description: 'Response for the health check endpoint',
+    properties: {
+      status: { $ref: '#/$defs/HealthStatus' },
+      version: { description: 'The API version string', type: 'string' },
+      checks: {
+        description: 'Per-component results',
+        type: 'array',
+        items: { $ref: '#/$defs/HealthCheck' },
+      },
+    },
+    required: ['status', 'version'],
+  }),
+  PageInfo: objectSchema<PageInfo>({
+    description: 'Cursor pagination metadata for a single page of results',
+    properties: {
+      limit: {
+        description: 'Maximum number of items in this page',
+        type: 'integer',
+      },
+      hasMore: { description: 'Whether more items exist', type: 'boolean' },
+      nextCursor: {
+        description: 'Opaque cursor for the next page',
+        type: ['string', 'null'],
+      },
+      total: {
+        description: 'Total number of items across all pages',
+        type: 'integer',
+        minimum: 0,
+      },
+    },
+    required: ['limit', 'hasMore', 'nextCursor'],
+  }),
+  DeprecationNotice: objectSchema<DeprecationNotice>({
+    description: 'Notice that the called endpoint or API version is deprecated',
+    properties: {
+      message: {
+        description: 'Human-readable explanation and replacement',
+        type: 'string',
+      },
+      sunset: { $ref: '#/$defs/ISODateString' },
+      link: { description: 'Where to read more', type: 'string' },
+    },
+    required: ['message'],
+  }),
+  ResponseMeta: objectSchema<ResponseMeta>({
+    description: 'Optional diagnostics attached to a response envelope',
+    properties: {
+      requestId: {
+        description: 'Server-assigned id of this request',
+        type: 'string',
+      },
+      traceId: { description: 'Distributed trace id', type: 'string' },
+      durationMs: {
+        description: 'Server-side processing time in milliseconds',
+        type: 'number',
+        minimum: 0,
+      },
+      apiVersion: {
+        description: 'Version of the API that produced the response',
+        type: 'string',
+      },
+      deprecation: { $ref: '#/$defs/DeprecationNotice' },
+    },
+    required: [],
+  }),
+  ErrorCode: {
+    description: 'Stable, machine-readable error category',
+    enum: ERROR_CODES,
+  },
+  FieldError: objectSchema<FieldError>({
+    description: 'A validation failure attached to a single request field',
+    properties: {
+      field: { description: 'Name of the offending field', type: 'string' },
+      code: {
+        description: 'Machine-readable failure reason',
+        enum: Object.keys(FIELD_ERROR_CODES),
+      },
+      message: { description: 'Human-readable description', type: 'string' },
+    },
+    required: ['field', 'code', 'message'],
+  }),
+  ErrorResponse: {
+    description:
+      'Error response envelope; `code`, `details` and `fieldErrors` are present on structured errors',
+    type: 'object',
+    properties: {
+      success: { const: false },
+      error: { description: 'Human-readable error message', type: 'string' },
+      code: { $ref: '#/$defs/ErrorCode' },
+      details: { description: 'Additional context', type: 'object' },
+      fieldErrors: {
+        description: 'Per-field validation failures',
+        type: 'array',
+        items: { $ref: '#/$defs/FieldError' },
+      },
+      timestamp: { $ref: '#/$defs/ISODateString' },
+      meta: { $ref: '#/$defs/ResponseMeta' },
+    },
+    required: ['success', 'error', 'timestamp'],
+  },
+  HistoryConflictResponse: {
+    description:
+      'CONFLICT error for an update whose expected_revision is stale; `details.current` is the stored record',
+    type: 'object',
+    properties: {
+      success: { const: false },
+      error: { description: 'Human-readable error message', type: 'string' },
+      code: { const: 'CONFLICT' },
+      details: objectSchema<HistoryConflictDetails>({
+        description: 'The stored record and the revision the update expected',
+        properties: {
+          current: { $ref: '#/$defs/History' },
+          expected_revision: {
+            description: 'The expected_revision of the rejected update',
+            type: 'integer',
+            minimum: 1,
+          },
+        },
+        required: ['current', 'expected_revision'],
+      }),
+      fieldErrors: {
+        description: 'Per-field validation failures',
+        type: 'array',
+        items: { $ref: '#/$defs/FieldError' },
+      },
+      timestamp: { $ref: '#/$defs/ISODateString' },
+      meta: { $ref: '#/$defs/ResponseMeta' },
+    },
+    required: ['success', 'error', 'code', 'details', 'timestamp'],
+  },
+} satisfies Record<string, JsonSchema>;
+
+/** Name of a schema in {@link STARTER_SCHEMA_DEFS}. */
+export type StarterSchemaName = keyof typeof STARTER_SCHEMA_DEFS;
+
+/**
+ * A single JSON Schema document bundling every definition under `$defs`.
+ * Serve this as-is, or reference individual types as `#/$defs/<Name>`.
+ */
+export const STARTER_JSON_SCHEMA: JsonSchema = {
+  $schema: JSON_SCHEMA_DIALECT,
+  title: 'Starter API types',
+  $defs: STARTER_SCHEMA_DEFS,
+};
+
+// =============================================================================
+// Schema Builders
+// =============================================================================
+
+/**
+ * Returns a standalone JSON Schema document for one type.
+ *
+ * The document references the type through `$ref` and carries all
+ * definitions in `$defs`, so it validates on its own.
+ *
+ * @param name - The TypeScript type name
+ * @returns A draft 2020-12 schema document
+ *
+ * @example
+ * ```typescript
+ * const schema = getJsonSchema('HistoryCreateRequest');
+ * ajv.validate(schema, body);
+ * ```
+ */
+export function getJsonSchema(name: StarterSchemaName): JsonSchema {
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    ...ref(name),
+    $defs: STARTER_SCHEMA_DEFS,
+  };
+}
+
+/**
+ * Builds the schema of a successful `BaseResponse<T>` envelope carrying
+ * `data` matching `data`.
+ *
+ * @param data - Schema of the payload, e.g. `{ $ref: '#/$defs/History' }`
+ * @returns The success envelope schema
+ */
+export function successResponseSchema(data: JsonSchema): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      success: { const: true },
+      data,
+      timestamp: ref('ISODateString'),
+      meta: ref('ResponseMeta'),
+    },
+    required: ['success', 'data', 'timestamp'],
+  };
+}
+
+/**
+ * Builds the schema of a successful `PaginatedResponse<T>` envelope whose
+ * `data` is an array of `item`, plus `pageInfo`.
+ *
+ * @param item - Schema of a single list item
+ * @returns The success envelope schema
+ */
+export function paginatedSuccessResponseSchema(item: JsonSchema): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      success: { const: true },
+      data: { type: 'array', items: item },
+      pageInfo: ref('PageInfo'),
+      timestamp: ref('ISODateString'),
+      meta: ref('ResponseMeta'),
+    },
+    required: ['success', 'data', 'pageInfo', 'timestamp'],
+  };
+}
+
+/**
+ * Builds the schema of a `BaseResponse<T>` envelope: either a success
+ * envelope carrying `data` matching `data`, or an `ErrorResponse`.
+ *
+ * References resolve against {@link STARTER_JSON_SCHEMA}'s `$defs`.
+ *
+ * @param data - Schema of the payload, e.g. `{ $ref: '#/$defs/History' }`
+ * @returns The envelope schema
+ */
+export function responseSchema(data: JsonSchema): JsonSchema {
+  return { oneOf: [successResponseSchema(data), ref('ErrorResponse')] };
+}
+
+/**
+ * Builds the schema of a `PaginatedResponse<T>` envelope: a success envelope
+ * whose `data` is an array of `item` plus `pageInfo`, or an `ErrorResponse`.
+ *
+ * @param item - Schema of a single list item
+ * @returns The envelope schema
+ */
+export function paginatedResponseSchema(item: JsonSchema): JsonSchema {
+  return {
+    oneOf: [paginatedSuccessResponseSchema(item), ref('ErrorResponse')],
+  };
+}
@@ -0,0 +1,232 @@
+import { describe, it, expect } from 'vitest';
+import {
+  aggregateHistorySeries,
+  toISODateString,
+  type History,
+  type HistorySeriesOptions,
+} from './index.js';
+import { makeHistory } from './test/fixtures.js';
+
+function boundsOf(
+  histories: History[],
+  options: HistorySeriesOptions
+): [string, string][] {
+  return aggregateHistorySeries(histories, options).points.map((p) => [
+    p.start,
+    p.end,
+  ]);
+}
+
+describe('aggregateHistorySeries', () => {
+  const histories = [
+    makeHistory({ datetime: '2025-01-02T10:00:00.000Z', value: 4 }),
+    makeHistory({ datetime: '2025-01-01T09:00:00.000Z', value: 1 }),
+    makeHistory({ datetime: '2025-01-01T23:30:00.000Z', value: 3 }),
+    makeHistory({ datetime: '2025-01-04T00:00:00.000Z', value: 8 }),
+  ];
+
+  it('should bucket by day in UTC and fill empty buckets', () => {
+    const series = aggregateHistorySeries(histories, {
+      granularity: 'day',
+      timeZone: 'UTC',
+      aggregate: 'sum',
+    });
+
+    expect(series).toMatchObject({
+      granularity: 'day',
+      time_zone: 'UTC',
+      aggregate: 'sum',
+    });
+    expect(series.points).toEqual([
+      {
+        start: '2025-01-01T00:00:00.000Z',
+        end: '2025-01-02T00:00:00.000Z',
+        value: 4,
+        count: 2,
+      },
+      {
+        start: '2025-01-02T00:00:00.000Z',
+        end: '2025-01-03T00:00:00.000Z',
+        value: 4,
+        count: 1,
+      },
+      {
+        start: '2025-01-03T00:00:00.000Z',
+        end: '2025-01-04T00:00:00.000Z',
+        value: 0,
+        count: 0,
+      },
+      {
+        start: '2025-01-04T00:00:00.000Z',
+        end: '2025-01-05T00:00:00.000Z',
+        value: 8,
+        count: 1,
+      },
+    ]);
+  });
+
+  it('should apply each aggregate, with null for empty avg, min and max', () => {
+    const values = (aggregate: HistorySeriesOptions['aggregate']) =>
+      aggregateHistorySeries(histories, {
+        granularity: 'day',
+        timeZone: 'UTC',
+        aggregate,
+      }).points.map((p) => p.value);
+
+    expect(values('count')).toEqual([2, 1, 0, 1]);
+    expect(values('avg')).toEqual([2, 4, null, 8]);
+    expect(values('min')).toEqual([1, 4, null, 8]);
+    expect(values('max')).toEqual([3, 4, null, 8]);
+  });
+
+  it('should use the calendar of the requested time zone', () => {
+    const series = aggregateHistorySeries(histories, {
+      granularity: 'day',
+      timeZone: 'Asia/Tokyo',
+      aggregate: 'sum',
+    });
+
+    // 23:30Z on Jan 1 is 08:30 on Jan 2 in Tokyo.
+    expect(series.points[0]).toEqual({
+      start: '2024-12-31T15:00:00.000Z',
+      end: '2025-01-01T15:00:00.000Z',
+      value: 1,
+      count: 1,
+    });
+    expect(series.points[1].value).toBe(7);
+  });
+
+  it('should stretch and shrink days across DST transitions', () => {
+    const options: HistorySeriesOptions = {
+      granularity: 'day',
+      timeZone: 'America/New_York',
+      aggregate: 'count',
+    };
+
+    expect(
+      boundsOf(
+        [makeHistory({ datetime: '2025-03-09T12:00:00.000Z', value: 1 })],
+        options
+      )
+    ).toEqual([['2025-03-09T05:00:00.000Z', '2025-03-10T04:00:00.000Z']]);
+    expect(
+      boundsOf(
+        [makeHistory({ datetime: '2025-11-02T12:00:00.000Z', value: 1 })],
+        options
+      )
+    ).toEqual([['2025-11-02T04:00:00.000Z', '2025-11-03T05:00:00.000Z']]);
+  });
+
+  it('should start a day at the end of a DST gap at midnight', () => {
+    expect(
+      boundsOf(
+        [makeHistory({ datetime: '2025-09-07T12:00:00.000Z', value: 1 })],
+        {
+          granularity: 'day',
+          timeZone: 'America/Santiago',
+          aggregate: 'count',
+        }
+      )
+    ).toEqual([['2025-09-07T04:00:00.000Z', '2025-09-08T03:00:00.000Z']]);
+  });
+
+  it('should keep repeated hours as separate buckets', () => {
+    const series = aggregateHistorySeries([], {
+      granularity: 'hour',
+      timeZone: 'America/New_York',
+      aggregate: 'count',
+      from: toISODateString('2025-11-02T04:00:00.000Z'),
+      to: toISODateString('2025-11-02T08:00:00.000Z'),
+    });
+
+    expect(series.points.map((p) => p.start)).toEqual([
+      '2025-11-02T04:00:00.000Z',
+      '2025-11-02T05:00:00.000Z',
+      '2025-11-02T06:00:00.000Z',
+      '2025-11-02T07:00:00.000Z',
+    ]);
+  });
+
+  it('should align hours to half-hour offsets', () => {
+    expect(
+      boundsOf(
+        [makeHistory({ datetime: '2025-01-01T10:00:00.000Z', value: 1 })],
+        {
+          granularity: 'hour',
+          timeZone: 'Asia/Kolkata',
+          aggregate: 'count',
+        }
+      )
+    ).toEqual([['2025-01-01T09:30:00.000Z', '2025-01-01T10:30:00.000Z']]);
+  });
+
+  it('should start weeks on Monday and months on the first', () => {
+    const wednesday = [
+      makeHistory({ datetime: '2025-01-15T12:00:00.000Z', value: 1 }),
+    ];
+
+    expect(
+      boundsOf(wednesday, {
+        granularity: 'week',
+        timeZone: 'UTC',
+        aggregate: 'sum',
+      })
+    ).toEqual([['2025-01-13T00:00:00.000Z', '2025-01-20T00:00:00.000Z']]);
+    expect(
+      boundsOf(
+        [makeHistory({ datetime: '2025-03-15T12:00:00.000Z', value: 1 })],
+        {
+          granularity: 'month',
+          timeZone: 'Europe/Berlin',
+          aggregate: 'sum',
+        }
+      )
+    ).toEqual([['2025-02-28T23:00:00.000Z', '2025-03-31T22:00:00.000Z']]);
+  });
+
+  it('should clip records to the requested range and fill it', () => {
+    const series = aggregateHistorySeries(histories, {
+      granularity: 'day',
+      timeZone: 'UTC',
+      aggregate: 'sum',
+      from: toISODateString('2025-01-02T00:00:00.000Z'),
+      to: toISODateString('2025-01-06T00:00:00.000Z'),
+    });
+
+    expect(series.points.map((p) => p.value)).toEqual([4, 0, 8, 0]);
+  });
+
+  it('should return no points without records or range', () => {
+    expect(
+      aggregateHistorySeries([], {
+        granularity: 'day',
+        timeZone: 'UTC',
+        aggregate: 'sum',
+      }).points
+    ).toEqual([]);
+  });
+
+  it('should reject unknown zones, inverted ranges and oversized series', () => {
+    const base = { granularity: 'hour', aggregate: 'sum' } as const;
+
+    expect(() =>
+      aggregateHistorySeries(histories, { ...base, timeZone: 'Mars/Base' })
+    ).toThrow(RangeError);
+    expect(() =>
+      aggregateHistorySeries(histories, {
+        ...base,
+        timeZone: 'UTC',
+        from: toISODateString('2025-02-01T00:00:00.000Z'),
+        to: toISODateString('2025-01-01T00:00:00.000Z'),
+      })
+    ).toThrow(RangeError);
+    expect(() =>
+      aggregateHistorySeries([], {
+        ...base,
+        timeZone: 'UTC',
+        from: toISODateString('2020-01-01T00:00:00.000Z'),
+        to: toISODateString('2025-01-01T00:00:00.000Z'),
+      })
+    ).toThrow(RangeError);
+  });
+});
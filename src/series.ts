@@ -0,0 +1,359 @@
+import { toISODateString } from './dates.js';
+import { sumValues } from './stats.js';
+import type { History, ISODateString } from './types.js';
+
+// =============================================================================
+// Series Types
+// =============================================================================
+
+/** Bucket size of a history series. Weeks start on Monday. */
+export type SeriesGranularity = 'hour' | 'day' | 'week' | 'month';
+
+/** How the values falling into one bucket are combined. */
+export type SeriesAggregate = 'sum' | 'avg' | 'min' | 'max' | 'count';
+
+/**
+ * Query for a time-bucketed history series.
+ *
+ * `from` is inclusive and `to` exclusive, as in `HistoryQuery`. When omitted
+ * the range spans the buckets of the first and last matching records.
+ *
+ * @example
+ * ```typescript
+ * const request: HistorySeriesRequest = {
+ *   granularity: 'day',
+ *   time_zone: 'Europe/Berlin',
+ *   aggregate: 'sum',
+ *   from: '2025-01-01T00:00:00.000Z',
+ *   to: '2025-02-01T00:00:00.000Z',
+ * };
+ * ```
+ */
+export interface HistorySeriesRequest {
+  /** Bucket size */
+  granularity: SeriesGranularity;
+  /** IANA time zone whose calendar defines bucket boundaries */
+  time_zone: string;
+  /** Aggregate applied to the values in each bucket */
+  aggregate: SeriesAggregate;
+  /** Inclusive lower bound on datetime */
+  from?: ISODateString;
+  /** Exclusive upper bound on datetime */
+  to?: ISODateString;
+}
+
+/** One bucket of a history series. */
+export interface HistorySeriesPoint {
+  /** Inclusive start of the bucket */
+  start: ISODateString;
+  /** Exclusive end of the bucket */
+  end: ISODateString;
+  /**
+   * Aggregated value. Empty buckets are `0` for `sum` and `count` and
+   * `null` for `avg`, `min` and `max`.
+   */
+  value: number | null;
+  /** Number of records in the bucket */
+  count: number;
+}
+
+/** Response for a history series: the request's settings plus its buckets. */
+export interface HistorySeriesResponse {
+  granularity: SeriesGranularity;
+  time_zone: string;
+  aggregate: SeriesAggregate;
+  /** Consecutive buckets in chronological order, including empty ones */
+  points: HistorySeriesPoint[];
+}
+
+/** Options for {@link aggregateHistorySeries}. */
+export interface HistorySeriesOptions {
+  granularity: SeriesGranularity;
+  /** IANA time zone, e.g. `'America/New_York'` */
+  timeZone: string;
+  aggregate: SeriesAggregate;
+  from?: ISODateString;
+  to?: ISODateString;
+}
+
+/** Upper bound on the number of buckets one series may produce. */
+export const MAX_SERIES_POINTS = 10_000;
+
+// =============================================================================
+// Time Zone Arithmetic
+// =============================================================================
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 86_400_000;
+
+/** A wall-clock reading, with the calendar fields packed as a UTC epoch. */
+interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  minute: number;
+  second: number;
+  /** The wall-clock reading interpreted as if it were UTC */
+  epoch: number;
+}
+
+function createFormatter(timeZone: string): Intl.DateTimeFormat {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  });
+}
+
+function wallTime(formatter: Intl.DateTimeFormat, time: number): WallTime {
+  const fields: Record<string, number> = {};
+  for (const part of formatter.formatToParts(time)) {
+    if (part.type !== 'literal') {
+      fields[part.type] = Number(part.value);
+    }
+  }
+  const { year, month, day, hour, minute, second } = fields;
+  return {
+    year,
+    month,
+    day,
+    minute,
+    second,
+    epoch: Date.UTC(year, month - 1, day, hour, minute, second),
+  };
+}
+
+/** Milliseconds the zone is ahead of UTC at `time`. */
+function offsetAt(formatter: Intl.DateTimeFormat, time: number): number {
+  const wholeSeconds = time - (((time % 1000) + 1000) % 1000);
+  return wallTime(formatter, time).epoch - wholeSeconds;
+}
+
+/**
+ * Returns the first instant at which the zone's clock reads `wall` (a
+ * wall-clock reading packed as a UTC epoch). Readings repeated by a
+ * backward transition resolve to the earlier instant; readings skipped by a
+ * forward transition resolve to the end of the gap when the gap starts at
+ * `wall`, which is the case for the midnights used as bucket boundaries.
+ */
+function wallToInstant(formatter: Intl.DateTimeFormat, wall: number): number {
+  const before = wall - offsetAt(formatter, wall - DAY_MS);
+  const after = wall - offsetAt(formatter, wall + DAY_MS);
+  const matches = [before, after].filter(
+    (instant) => wallTime(formatter, instant).epoch === wall
+  );
+  return matches.length > 0 ? Math.min(...matches) : before;
+}
+
+function startOfDay(
+  formatter: Intl.DateTimeFormat,
+  year: number,
+  month: number,
+  day: number
+): number {
+  return wallToInstant(formatter, Date.UTC(year, month - 1, day));
+}
+
+/** Start of the bucket containing `time`. */
+function bucketStart(
+  formatter: Intl.DateTimeFormat,
+  granularity: SeriesGranularity,
+  time: number
+): number {
+  const wall = wallTime(formatter, time);
+  switch (granularity) {
+    case 'hour':
+      // Offsets change on whole hours, so local hour marks are found by
+      // dropping the local minutes and seconds from the instant itself.
+      return (
+        time -
+        wall.minute * 60_000 -
+        wall.second * 1000 -
+        (((time % 1000) + 1000) % 1000)
+      );
+    case 'day':
+      return startOfDay(formatter, wall.year, wall.month, wall.day);
+    case 'week': {
+      const weekday = new Date(
+        Date.UTC(wall.year, wall.month - 1, wall.day)
+      ).getUTCDay();
+      const sinceMonday = (weekday + 6) % 7;
+      return startOfDay(
+        formatter,
+        wall.year,
+        wall.month,
+        wall.day - sinceMonday
+      );
+    }
+    case 'month':
+      return startOfDay(formatter, wall.year, wall.month, 1);
+  }
+}
+
+/** Start of the bucket following the one starting at `start`. */
+function nextBucket(
+  formatter: Intl.DateTimeFormat,
+  granularity: SeriesGranularity,
+  start: number
+): number {
+  if (granularity === 'hour') {
+    return start + HOUR_MS;
+  }
+  const { year, month, day } = wallTime(formatter, start);
+  switch (granularity) {
+    case 'day':
+      return startOfDay(formatter, year, month, day + 1);
+    case 'week':
+      return startOfDay(formatter, year, month, day + 7);
+    case 'month':
+      return startOfDay(formatter, year, month + 1, 1);
+  }
+}
+
+/**
+ * Returns the bucket of the given granularity that contains an instant,
+ * using the calendar of `timeZone`.
+ *
+ * @param datetime - The instant to locate
+ * @param granularity - Bucket size; weeks start on Monday
+ * @param timeZone - IANA time zone, e.g. `'Europe/Berlin'`
+ * @returns The inclusive start and exclusive end of the bucket
+ * @throws {RangeError} If the time zone is unknown
+ *
+ * @example
+ * ```typescript
+ * getSeriesBucket(toISODateString('2025-03-15T12:00:00Z'), 'month', 'Europe/Berlin');
+ * // { start: '2025-02-28T23:00:00.000Z', end: '2025-03-31T22:00:00.000Z' }
+ * ```
+ */
+export function getSeriesBucket(
+  datetime: ISODateString,
+  granularity: SeriesGranularity,
+  timeZone: string
+): { start: ISODateString; end: ISODateString } {
+  const formatter = createFormatter(timeZone);
+  const start = bucketStart(formatter, granularity, Date.parse(datetime));
+  return {
+    start: toISODateString(start),
+    end: toISODateString(nextBucket(formatter, granularity, start)),
+  };
+}
+
+// =============================================================================
+// Aggregation
+// =============================================================================
+
+function aggregateValues(
+  aggregate: SeriesAggregate,
+  values: number[]
+): number | null {
+  switch (aggregate) {
+    case 'count':
+      return values.length;
+    case 'sum':
+      return sumValues(values);
+  }
+  if (values.length === 0) {
+    return null;
+  }
+  switch (aggregate) {
+    case 'avg':
+      return sumValues(values) / values.length;
+    case 'min':
+      return Math.min(...values);
+    case 'max':
+      return Math.max(...values);
+  }
+}
+
+/**
+ * Groups history records into consecutive time buckets and aggregates the
+ * values in each.
+ *
+ * Bucket boundaries follow the calendar of `timeZone`, so a day bucket spans
+ * 23 or 25 hours across DST transitions and hour buckets never overlap.
+ * Every bucket between the range's first and last is returned, empty or not.
+ *
+ * @param histories - The records to aggregate, in any order
+ * @param options - Granularity, IANA time zone, aggregate and optional range
+ * @returns The series, echoing the options in request field names
+ * @throws {RangeError} If the time zone is unknown, the range is inverted,
+ *   or the series would exceed {@link MAX_SERIES_POINTS} buckets
+ *
+ * @example
+ * ```typescript
+ * const series = aggregateHistorySeries(histories, {
+ *   granularity: 'day',
+ *   timeZone: 'America/New_York',
+ *   aggregate: 'sum',
+ * });
+ * chart.setData(series.points.map((p) => [p.start, p.value ?? 0]));
+ * ```
+ */
+export function aggregateHistorySeries(
+  histories: readonly History[],
+  options: HistorySeriesOptions
+): HistorySeriesResponse {
+  const { granularity, timeZone, aggregate } = options;
+  const formatter = createFormatter(timeZone);
+  const response: HistorySeriesResponse = {
+    granularity,
+    time_zone: timeZone,
+    aggregate,
+    points: [],
+  };
+
+  const from =
+    options.from === undefined ? undefined : Date.parse(options.from);
+  const to = options.to === undefined ? undefined : Date.parse(options.to);
+  if (from !== undefined && to !== undefined && from > to) {
+    throw new RangeError('from must not be after to');
+  }
+
+  const entries = histories
+    .map((h) => ({ time: Date.parse(h.datetime), value: h.value }))
+    .filter(
+      (e) =>
+        (from === undefined || e.time >= from) &&
+        (to === undefined || e.time < to)
+    )
+    .sort((a, b) => a.time - b.time);
+
+  const first = from ?? entries[0]?.time;
+  const last = to === undefined ? entries[entries.length - 1]?.time : to - 1;
+  if (first === undefined || last === undefined || last < first) {
+    return response;
+  }
+
+  let index = 0;
+  for (
+    let start = bucketStart(formatter, granularity, first);
+    start <= last;
+    start = nextBucket(formatter, granularity, start)
+  ) {
+    if (response.points.length === MAX_SERIES_POINTS) {
+      throw new RangeError(
+        `Series exceeds ${MAX_SERIES_POINTS} ${granularity} buckets`
+      );
+    }
+    const end = nextBucket(formatter, granularity, start);
+    const values: number[] = [];
+    while (index < entries.length && entries[index].time < end) {
+      values.push(entries[index].value);
+      index += 1;
+    }
+    response.points.push({
+      start: toISODateString(start),
+      end: toISODateString(end),
+      value: aggregateValues(aggregate, values),
+      count: values.length,
+    });
+  }
+
+  return response;
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { computeHistoryStats, sumValues } from './index.js';
+import { makeHistory } from './test/fixtures.js';
+
+describe('sumValues', () => {
+  it('should compensate for lost low-order bits', () => {
+    expect(sumValues([1e16, 1, -1e16])).toBe(1);
+    expect(sumValues(Array.from({ length: 10 }, () => 0.1))).toBe(1);
+  });
+
+  it('should return 0 for an empty list', () => {
+    expect(sumValues([])).toBe(0);
+  });
+});
+
+describe('computeHistoryStats', () => {
+  it('should return zero count and sum with null fields for an empty set', () => {
+    expect(computeHistoryStats([])).toEqual({
+      count: 0,
+      sum: 0,
+      min: null,
+      max: null,
+      mean: null,
+      median: null,
+      std_dev: null,
+      first_datetime: null,
+      last_datetime: null,
+    });
+  });
+
+  it('should summarize records in any order', () => {
+    const stats = computeHistoryStats([
+      makeHistory({ datetime: Date.UTC(2025, 0, 3), value: 30 }),
+      makeHistory({ datetime: Date.UTC(2025, 0, 1), value: 10 }),
+      makeHistory({ datetime: Date.UTC(2025, 0, 2), value: 20 }),
+    ]);
+
+    expect(stats).toEqual({
+      count: 3,
+      sum: 60,
+      min: 10,
+      max: 30,
+      mean: 20,
+      median: 20,
+      std_dev: Math.sqrt(200 / 3),
+      first_datetime: '2025-01-01T00:00:00.000Z',
+      last_datetime: '2025-01-03T00:00:00.000Z',
+    });
+  });
+
+  it('should average the middle values for an even count', () => {
+    const stats = computeHistoryStats([
+      makeHistory({ datetime: Date.UTC(2025, 0, 1), value: 1 }),
+      makeHistory({ datetime: Date.UTC(2025, 0, 2), value: 4 }),
+      makeHistory({ datetime: Date.UTC(2025, 0, 3), value: 2 }),
+      makeHistory({ datetime: Date.UTC(2025, 0, 4), value: 10 }),
+    ]);
+
+    expect(stats.median).toBe(3);
+  });
+
+  it('should report a zero deviation for a single record', () => {
+    const stats = computeHistoryStats([
+      makeHistory({ datetime: Date.UTC(2025, 0, 5), value: 42.5 }),
+    ]);
+
+    expect(stats).toMatchObject({ mean: 42.5, median: 42.5, std_dev: 0 });
+    expect(stats.first_datetime).toBe(stats.last_datetime);
+  });
+});
@@ -0,0 +1,141 @@
+import type { History, ISODateString } from './types.js';
+
+// =============================================================================
+// Statistics Types
+// =============================================================================
+
+/**
+ * Summary statistics over a set of history records.
+ *
+ * Every field is computed by {@link computeHistoryStats}. For an empty set
+ * `count` and `sum` are `0` and every other field is `null`.
+ *
+ * @example
+ * ```typescript
+ * const stats: HistoryStatsResponse = {
+ *   count: 3,
+ *   sum: 60,
+ *   min: 10,
+ *   max: 30,
+ *   mean: 20,
+ *   median: 20,
+ *   std_dev: 8.16496580927726,
+ *   first_datetime: '2025-01-01T00:00:00.000Z',
+ *   last_datetime: '2025-01-03T00:00:00.000Z',
+ * };
+ * ```
+ */
+export interface HistoryStatsResponse {
+  /** Number of records */
+  count: number;
+  /** Sum of all values, using compensated summation */
+  sum: number;
+  /** Smallest value, or null when there are no records */
+  min: number | null;
+  /** Largest value, or null when there are no records */
+  max: number | null;
+  /** Arithmetic mean, or null when there are no records */
+  mean: number | null;
+  /** Median (mean of the two middle values for an even count), or null */
+  median: number | null;
+  /** Population standard deviation, or null when there are no records */
+  std_dev: number | null;
+  /** Earliest record datetime, or null when there are no records */
+  first_datetime: ISODateString | null;
+  /** Latest record datetime, or null when there are no records */
+  last_datetime: ISODateString | null;
+}
+
+// =============================================================================
+// Aggregation
+// =============================================================================
+
+/**
+ * Sums numbers with Neumaier's compensated summation, so long series of
+ * values with different magnitudes do not accumulate rounding error.
+ *
+ * @param values - The numbers to add
+ * @returns The sum; `0` for an empty list
+ *
+ * @example
+ * ```typescript
+ * sumValues([1e16, 1, -1e16]); // 1 (a naive loop returns 0)
+ * ```
+ */
+export function sumValues(values: readonly number[]): number {
+  let sum = 0;
+  let compensation = 0;
+  for (const value of values) {
+    const next = sum + value;
+    compensation +=
+      Math.abs(sum) >= Math.abs(value)
+        ? sum - next + value
+        : value - next + sum;
+    sum = next;
+  }
+  return sum + compensation;
+}
+
+/**
+ * Computes summary statistics for a set of history records.
+ *
+ * Records may be in any order. The standard deviation is the population
+ * deviation, computed in a second pass over the mean for stability.
+ *
+ * @param histories - The records to summarize
+ * @returns The statistics; see {@link HistoryStatsResponse} for empty sets
+ *
+ * @example
+ * ```typescript
+ * const stats = computeHistoryStats(histories);
+ * return c.json(successResponse(stats));
+ * ```
+ */
+export function computeHistoryStats(
+  histories: readonly History[]
+): HistoryStatsResponse {
+  if (histories.length === 0) {
+    return {
+      count: 0,
+      sum: 0,
+      min: null,
+      max: null,
+      mean: null,
+      median: null,
+      std_dev: null,
+      first_datetime: null,
+      last_datetime: null,
+    };
+  }
+
+  const values = histories.map((h) => h.value).sort((a, b) => a - b);
+  const count = values.length;
+  const sum = sumValues(values);
+  const mean = sum / count;
+  const middle = Math.floor(count / 2);
+  const median =
+    count % 2 === 1
+      ? values[middle]
+      : (values[middle - 1] + values[middle]) / 2;
+  const variance = sumValues(values.map((v) => (v - mean) ** 2)) / count;
+
+  let first = histories[0];
+  let last = histories[0];
+  for (const history of histories) {
+    const time = Date.parse(history.datetime);
+    if (time < Date.parse(first.datetime)) first = history;
+    if (time > Date.parse(last.datetime)) last = history;
+  }
+
+  return {
+    count,
+    sum,
+    min: values[0],
+    max: values[count - 1],
+    mean,
+    median,
+    std_dev: Math.sqrt(variance),
+    first_datetime: first.datetime,
+    last_datetime: last.datetime,
+  };
+}
@@ -0,0 +1,59 @@
+import {
+  toHistoryId,
+  toISODateString,
+  toUserId,
+  type FieldError,
+  type History,
+  type HistoryId,
+} from '../index.js';
+
+// =============================================================================
+// Shared Test Fixtures
+// =============================================================================
+
+/**
+ * A fixture history id ending in `suffix`, zero-padded, so ids sort like
+ * their suffixes: `testHistoryId('a')` is
+ * `00000000-0000-4000-8000-00000000000a`.
+ */
+export function testHistoryId(suffix: number | string): HistoryId {
+  return toHistoryId(
+    `00000000-0000-4000-8000-${String(suffix).padStart(12, '0')}`
+  );
+}
+
+/**
+ * Fields for {@link makeHistory}; `datetime` takes anything
+ * `toISODateString` does.
+ */
+export type HistoryFixture = Partial<Omit<History, 'datetime'>> & {
+  datetime?: Date | number | string;
+};
+
+/**
+ * Builds a {@link History} for tests: record 1 of user `uid123`, value 1 at
+ * `2025-01-15T10:30:00.000Z`, with any of those fields overridden.
+ */
+export function makeHistory({
+  datetime = '2025-01-15T10:30:00.000Z',
+  ...fields
+}: HistoryFixture = {}): History {
+  return {
+    id: testHistoryId(1),
+    user_id: toUserId('uid123'),
+    value: 1,
+    created_at: null,
+    updated_at: null,
+    revision: 1,
+    ...fields,
+    datetime: toISODateString(datetime),
+  };
+}
+
+/** The `field:code` pairs of a validation result's errors, in order. */
+export function codesOf(result: {
+  valid: boolean;
+  errors?: FieldError[];
+}): string[] {
+  return (result.errors ?? []).map((e) => `${e.field}:${e.code}`);
+}
@@ -0,0 +1,237 @@
+import type { HealthCheck, HealthStatus } from './health.js';
+import type { HistoryDateRange } from './ranges.js';
+
+// =============================================================================
+// Type Aliases
+// =============================================================================
+
+/**
+ * ISO 8601 formatted datetime string.
+ *
+ * Produce values with {@link toISODateString} or narrow unknown input with
+ * {@link isISODateString} rather than casting.
+ *
+ * @example "2025-01-15T10:30:00.000Z"
+ */
+export type ISODateString = string & { readonly __brand: 'ISODateString' };
+
+/**
+ * Firebase Authentication UID of a user.
+ *
+ * Produce values with {@link toUserId} or narrow unknown input with
+ * {@link isUserId} rather than casting.
+ *
+ * @example "Xy7aB2cD3eF4gH5iJ6kL7mN8oP9q"
+ */
+export type UserId = string & { readonly __brand: 'UserId' };
+
+/**
+ * Id of a history record: a lowercase UUID.
+ *
+ * Produce values with {@link toHistoryId} or narrow unknown input with
+ * {@link isHistoryId} rather than casting.
+ *
+ * @example "3f2b8c1e-9d4a-4f6b-8e2c-7a1d5b9c0e4f"
+ */
+export type HistoryId = string & { readonly __brand: 'HistoryId' };
+
+// =============================================================================
+// User
+// =============================================================================
+
+/**
+ * User account information.
+ *
+ * @example
+ * ```typescript
+ * const user: User = {
+ *   firebase_uid: toUserId('uid123'),
+ *   email: 'user@example.com',
+ *   display_name: 'John Doe',
+ *   created_at: toISODateString('2025-01-15T10:30:00.000Z'),
+ *   updated_at: toISODateString('2025-01-15T10:30:00.000Z'),
+ * };
+ * ```
+ */
+export interface User {
+  /** Firebase Authentication UID */
+  firebase_uid: UserId;
+  /** User email address, nullable */
+  email: string | null;
+  /** User display name, nullable */
+  display_name: string | null;
+  /** ISO 8601 timestamp of account creation, nullable */
+  created_at: ISODateString | null;
+  /** ISO 8601 timestamp of last update, nullable */
+  updated_at: ISODateString | null;
+}
+
+/**
+ * Request body for updating the current user's profile.
+ * All fields are optional; omitted fields are not updated and `null`
+ * clears a field.
+ *
+ * @example
+ * ```typescript
+ * const updateRequest: UserUpdateRequest = {
+ *   display_name: 'Jane Doe',
+ *   email: null,
+ * };
+ * ```
+ */
+export interface UserUpdateRequest {
+  /** New email address, or `null` to remove it */
+  email?: string | null;
+  /** New display name, or `null` to remove it */
+  display_name?: string | null;
+}
+
+// =============================================================================
+// History
+// =============================================================================
+
+/**
+ * Core domain entity representing a historical data point.
+ *
+ * @example
+ * ```typescript
+ * const history: History = {
+ *   id: toHistoryId('3f2b8c1e-9d4a-4f6b-8e2c-7a1d5b9c0e4f'),
+ *   user_id: toUserId('uid123'),
+ *   datetime: toISODateString('2025-01-15T10:30:00.000Z'),
+ *   value: 42.5,
+ *   created_at: toISODateString('2025-01-15T10:30:00.000Z'),
+ *   updated_at: null,
+ *   revision: 1,
+ * };
+ * ```
+ */
+export interface History {
+  /** Unique identifier for this history record */
+  id: HistoryId;
+  /** Foreign key reference to the owning user */
+  user_id: UserId;
+  /** ISO 8601 formatted datetime when the event occurred */
+  datetime: ISODateString;
+  /** Numeric value associated with this history record, must be positive */
+  value: number;
+  /** ISO 8601 timestamp when the record was created, nullable */
+  created_at: ISODateString | null;
+  /** ISO 8601 timestamp of the last update, nullable */
+  updated_at: ISODateString | null;
+  /**
+   * Revision of the record: 1 on create, incremented by every update. Sent
+   * back as `expected_revision` to detect concurrent edits.
+   */
+  revision: number;
+}
+
+/**
+ * Request body for creating a new history record.
+ *
+ * @example
+ * ```typescript
+ * const createRequest: HistoryCreateRequest = {
+ *   datetime: '2025-01-15T10:30:00.000Z',
+ *   value: 100,
+ * };
+ * ```
+ */
+export interface HistoryCreateRequest {
+  /** ISO 8601 formatted datetime when the event occurred */
+  datetime: string;
+  /** Numeric value associated with the record, must be positive */
+  value: number;
+}
+
+/**
+ * Request body for updating an existing history record.
+ * All fields are optional; omitted fields are not updated.
+ *
+ * With `expected_revision`, the update only applies if the stored record is
+ * still at that revision; otherwise the server answers with a `CONFLICT`
+ * error carrying the current record (see `HistoryConflictResponse`).
+ *
+ * @example
+ * ```typescript
+ * const updateRequest: HistoryUpdateRequest = {
+ *   value: 150,
+ *   expected_revision: 3,
+ * };
+ * ```
+ */
+export interface HistoryUpdateRequest {
+  /** ISO 8601 formatted datetime, optional for updates */
+  datetime?: string;
+  /** Numeric value, optional for updates, must be positive if provided */
+  value?: number;
+  /** Revision the client last saw; omit to update unconditionally */
+  expected_revision?: number;
+}
+
+// =============================================================================
+// API Responses
+// =============================================================================
+
+/**
+ * Response containing the total sum of all history records for a user.
+ *
+ * @example
+ * ```typescript
+ * const totalResponse: HistoryTotalResponse = {
+ *   total: 12345.67,
+ *   range: { from: '2025-01-01T00:00:00.000Z', to: null },
+ * };
+ * ```
+ */
+export interface HistoryTotalResponse {
+  /** Sum of all values for the queried history records */
+  total: number;
+  /** The range the total covers, as resolved from the `HistoryTotalRequest` */
+  range?: HistoryDateRange;
+}
+
+/**
+ * Response for the root API metadata endpoint (`GET /`).
+ *
+ * @example
+ * ```typescript
+ * const info: ApiInfoResponse = {
+ *   name: 'Starter API',
+ *   version: '1.0.0',
+ *   status: 'ok',
+ * };
+ * ```
+ */
+export interface ApiInfoResponse {
+  /** The name of the API */
+  name: string;
+  /** The API version string */
+  version: string;
+  /** Current operational status */
+  status: HealthStatus;
+}
+
+/**
+ * Response for the health check endpoint (`GET /health`).
+ *
+ * @example
+ * ```typescript
+ * const health: HealthResponse = {
+ *   status: 'degraded',
+ *   version: '1.0.0',
+ *   checks: [
+ *     { component: 'database', status: 'ok', latency_ms: 4 },
+ *     { component: 'cache', status: 'down', latency_ms: 2000 },
+ *   ],
+ * };
+ * ```
+ */
+export interface HealthResponse {
+  /** Overall health, see `aggregateHealth` */
+  status: HealthStatus;
+  /** The API version string */
+  version: string;
+  /** Per-component results, if the server checks its dependencies */
+  checks?: HealthCheck[];
+}
@@ -0,0 +1,264 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateHistoryCreateRequest,
+  validateHistoryUpdateRequest,
+  validateUserUpdateRequest,
+  normalizeUser,
+  MAX_DISPLAY_NAME_LENGTH,
+} from './index.js';
+import { codesOf } from './test/fixtures.js';
+
+describe('validateHistoryCreateRequest', () => {
+  it('should accept a valid request', () => {
+    const result = validateHistoryCreateRequest({
+      datetime: '2025-01-15T10:30:00.000Z',
+      value: 42.5,
+    });
+
+    expect(result).toEqual({
+      valid: true,
+      value: { datetime: '2025-01-15T10:30:00.000Z', value: 42.5 },
+    });
+  });
+
+  it('should accept datetimes with offsets and without milliseconds', () => {
+    expect(
+      validateHistoryCreateRequest({
+        datetime: '2025-01-15T10:30:00+05:30',
+        value: 1,
+      }).valid
+    ).toBe(true);
+    expect(
+      validateHistoryCreateRequest({
+        datetime: '2025-01-15T10:30Z',
+        value: 1,
+      }).valid
+    ).toBe(true);
+  });
+
+  it('should reject non-object bodies', () => {
+    for (const input of [null, undefined, 'x', 1, []]) {
+      const result = validateHistoryCreateRequest(input);
+      expect(codesOf(result)).toEqual([':invalid_body']);
+    }
+  });
+
+  it('should report every missing field', () => {
+    const result = validateHistoryCreateRequest({});
+
+    expect(codesOf(result)).toEqual(['datetime:missing', 'value:missing']);
+  });
+
+  it('should report wrong types', () => {
+    const result = validateHistoryCreateRequest({ datetime: 123, value: '1' });
+
+    expect(codesOf(result)).toEqual([
+      'datetime:invalid_type',
+      'value:invalid_type',
+    ]);
+  });
+
+  it('should reject non-finite values', () => {
+    for (const value of [NaN, Infinity, -Infinity]) {
+      const result = validateHistoryCreateRequest({
+        datetime: '2025-01-15T10:30:00.000Z',
+        value,
+      });
+      expect(codesOf(result)).toEqual(['value:not_finite']);
+    }
+  });
+
+  it('should reject zero and negative values', () => {
+    for (const value of [0, -0, -1]) {
+      const result = validateHistoryCreateRequest({
+        datetime: '2025-01-15T10:30:00.000Z',
+        value,
+      });
+      expect(codesOf(result)).toEqual(['value:not_positive']);
+    }
+  });
+
+  it('should reject unparseable and impossible dates', () => {
+    for (const datetime of [
+      'yesterday',
+      '2025-01-15',
+      '2025-01-15 10:30:00Z',
+      '2025-02-30T00:00:00Z',
+      '2025-01-15T24:00:00Z',
+      '2025-13-01T00:00:00Z',
+    ]) {
+      const result = validateHistoryCreateRequest({ datetime, value: 1 });
+      expect(codesOf(result)).toEqual(['datetime:invalid_date']);
+    }
+  });
+
+  it('should reject unknown extra keys', () => {
+    const result = validateHistoryCreateRequest({
+      datetime: '2025-01-15T10:30:00.000Z',
+      value: 1,
+      user_id: 'uid123',
+    });
+
+    expect(codesOf(result)).toEqual(['user_id:unknown_field']);
+  });
+});
+
+describe('validateHistoryUpdateRequest', () => {
+  it('should accept partial updates', () => {
+    expect(validateHistoryUpdateRequest({ value: 150 })).toEqual({
+      valid: true,
+      value: { value: 150 },
+    });
+    expect(
+      validateHistoryUpdateRequest({ datetime: '2025-01-15T12:00:00.000Z' })
+    ).toEqual({
+      valid: true,
+      value: { datetime: '2025-01-15T12:00:00.000Z' },
+    });
+  });
+
+  it('should reject an empty update body', () => {
+    const result = validateHistoryUpdateRequest({});
+
+    expect(codesOf(result)).toEqual([':empty_update']);
+  });
+
+  it('should accept and check expected_revision', () => {
+    expect(
+      validateHistoryUpdateRequest({ value: 150, expected_revision: 3 })
+    ).toEqual({ valid: true, value: { value: 150, expected_revision: 3 } });
+    expect(
+      codesOf(validateHistoryUpdateRequest({ expected_revision: 3 }))
+    ).toEqual([':empty_update']);
+    expect(
+      codesOf(
+        validateHistoryUpdateRequest({ value: 1, expected_revision: '3' })
+      )
+    ).toEqual(['expected_revision:invalid_type']);
+    expect(
+      codesOf(
+        validateHistoryUpdateRequest({ value: 1, expected_revision: 1.5 })
+      )
+    ).toEqual(['expected_revision:invalid_value']);
+  });
+
+  it('should treat undefined fields as omitted', () => {
+    const result = validateHistoryUpdateRequest({
+      value: undefined,
+      datetime: undefined,
+    });
+
+    expect(codesOf(result)).toEqual([':empty_update']);
+  });
+
+  it('should validate provided fields like create does', () => {
+    const result = validateHistoryUpdateRequest({
+      datetime: 'not a date',
+      value: -5,
+    });
+
+    expect(codesOf(result)).toEqual([
+      'datetime:invalid_date',
+      'value:not_positive',
+    ]);
+  });
+
+  it('should reject null for optional fields', () => {
+    const result = validateHistoryUpdateRequest({ value: null });
+
+    expect(codesOf(result)).toEqual(['value:invalid_type']);
+  });
+
+  it('should reject unknown extra keys without reporting empty_update', () => {
+    const result = validateHistoryUpdateRequest({ id: 'hist-1' });
+
+    expect(codesOf(result)).toEqual(['id:unknown_field']);
+  });
+});
+
+describe('validateUserUpdateRequest', () => {
+  it('should return normalized values and allow clearing with null', () => {
+    expect(
+      validateUserUpdateRequest({
+        email: ' Jane.Doe@Example.COM ',
+        display_name: '  Jose\u0301 ',
+      })
+    ).toEqual({
+      valid: true,
+      value: { email: 'Jane.Doe@example.com', display_name: 'Jos\u00e9' },
+    });
+    expect(validateUserUpdateRequest({ display_name: null })).toEqual({
+      valid: true,
+      value: { display_name: null },
+    });
+  });
+
+  it('should check email syntax', () => {
+    for (const email of ['jane', 'jane@', 'jane@localhost', 'a b@x.io']) {
+      expect(codesOf(validateUserUpdateRequest({ email }))).toEqual([
+        'email:invalid_value',
+      ]);
+    }
+    expect(validateUserUpdateRequest({ email: 'ü+tag@bücher.de' }).valid).toBe(
+      true
+    );
+  });
+
+  it('should check display name length in code points', () => {
+    expect(
+      validateUserUpdateRequest({
+        display_name: '😀'.repeat(MAX_DISPLAY_NAME_LENGTH),
+      }).valid
+    ).toBe(true);
+    expect(
+      codesOf(
+        validateUserUpdateRequest({
+          display_name: 'a'.repeat(MAX_DISPLAY_NAME_LENGTH + 1),
+        })
+      )
+    ).toEqual(['display_name:invalid_value']);
+    expect(codesOf(validateUserUpdateRequest({ display_name: '   ' }))).toEqual(
+      ['display_name:invalid_value']
+    );
+  });
+
+  it('should reject control and zero-width characters', () => {
+    expect(
+      codesOf(
+        validateUserUpdateRequest({
+          display_name: 'Ja\u200bne',
+          email: 'jane\u0000@example.com',
+        })
+      )
+    ).toEqual(['email:invalid_value', 'display_name:invalid_value']);
+    expect(
+      validateUserUpdateRequest({ display_name: '👩\u200d💻 Jane' }).valid
+    ).toBe(true);
+  });
+
+  it('should report types, unknown fields and empty bodies', () => {
+    expect(
+      codesOf(validateUserUpdateRequest({ email: 1, firebase_uid: 'x' }))
+    ).toEqual(['email:invalid_type', 'firebase_uid:unknown_field']);
+    expect(codesOf(validateUserUpdateRequest({}))).toEqual([':empty_update']);
+    expect(codesOf(validateUserUpdateRequest(null))).toEqual([':invalid_body']);
+  });
+});
+
+describe('normalizeUser', () => {
+  it('should normalize profile fields and keep the rest', () => {
+    const user = {
+      firebase_uid: 'uid123',
+      email: ' CaseSensitive@MAIL.Example.com',
+      display_name: null,
+      created_at: null,
+      updated_at: null,
+    };
+
+    expect(normalizeUser(user)).toEqual({
+      ...user,
+      email: 'CaseSensitive@mail.example.com',
+    });
+    expect(normalizeUser({})).toEqual({});
+  });
+});
@@ -0,0 +1,449 @@
+import { isISODateString } from './dates.js';
+import { isPlainObject } from './internal.js';
+import type {
+  HistoryCreateRequest,
+  HistoryUpdateRequest,
+  User,
+  UserUpdateRequest,
+} from './types.js';
+
+// =============================================================================
+// Validation Types
+// =============================================================================
+
+/**
+ * Machine-readable reason a single field failed validation.
+ *
+ * - `missing` - a required field is absent (or `undefined`)
+ * - `invalid_type` - the field is present but has the wrong JavaScript type
+ * - `not_finite` - a numeric field is `NaN`, `Infinity` or `-Infinity`
+ * - `invalid_number` - a numeric string is not in plain decimal notation
+ * - `not_positive` - a numeric field is zero or negative
+ * - `invalid_date` - a datetime field is not a parseable ISO 8601 string
+ * - `unknown_field` - the payload carries a key the request type does not define
+ * - `empty_update` - an update payload contains no updatable fields
+ * - `invalid_body` - the payload itself is not a plain object
+ * - `invalid_value` - the field has the right type but is not an allowed value
+ * - `invalid_range` - a lower bound is greater than its upper bound
+ */
+export type FieldErrorCode =
+  | 'missing'
+  | 'invalid_type'
+  | 'not_finite'
+  | 'invalid_number'
+  | 'not_positive'
+  | 'invalid_date'
+  | 'unknown_field'
+  | 'empty_update'
+  | 'invalid_body'
+  | 'invalid_value'
+  | 'invalid_range';
+
+/**
+ * A validation failure attached to a single request field.
+ *
+ * Body-level failures (`invalid_body`, `empty_update`) use an empty string
+ * as the `field`.
+ *
+ * @example
+ * ```typescript
+ * const error: FieldError = {
+ *   field: 'value',
+ *   code: 'not_positive',
+ *   message: 'value must be greater than 0',
+ * };
+ * ```
+ */
+export interface FieldError {
+  /** Name of the offending field, or `''` for body-level errors */
+  field: string;
+  /** Machine-readable failure reason */
+  code: FieldErrorCode;
+  /** Human-readable description of the failure */
+  message: string;
+}
+
+/**
+ * Outcome of validating an untrusted payload.
+ *
+ * Either the payload was accepted and is returned as the typed `value`, or it
+ * was rejected and every detected problem is listed in `errors`.
+ *
+ * @typeParam T - The request type produced on success
+ */
+export type ValidationResult<T> =
+  { valid: true; value: T } | { valid: false; errors: FieldError[] };
+
+// =============================================================================
+// Field Checks
+// =============================================================================
+
+function checkDatetime(
+  body: Record<string, unknown>,
+  errors: FieldError[]
+): void {
+  const datetime = body.datetime;
+  if (typeof datetime !== 'string') {
+    errors.push({
+      field: 'datetime',
+      code: 'invalid_type',
+      message: 'datetime must be a string',
+    });
+  } else if (!isISODateString(datetime, { mode: 'lenient' })) {
+    errors.push({
+      field: 'datetime',
+      code: 'invalid_date',
+      message: 'datetime must be an ISO 8601 datetime',
+    });
+  }
+}
+
+function checkValue(body: Record<string, unknown>, errors: FieldError[]): void {
+  const value = body.value;
+  if (typeof value !== 'number') {
+    errors.push({
+      field: 'value',
+      code: 'invalid_type',
+      message: 'value must be a number',
+    });
+  } else if (!Number.isFinite(value)) {
+    errors.push({
+      field: 'value',
+      code: 'not_finite',
+      message: 'value must be a finite number',
+    });
+  } else if (value <= 0) {
+    errors.push({
+      field: 'value',
+      code: 'not_positive',
+      message: 'value must be greater than 0',
+    });
+  }
+}
+
+function checkRevision(
+  body: Record<string, unknown>,
+  errors: FieldError[]
+): void {
+  const revision = body.expected_revision;
+  if (typeof revision !== 'number') {
+    errors.push({
+      field: 'expected_revision',
+      code: 'invalid_type',
+      message: 'expected_revision must be a number',
+    });
+  } else if (!Number.isSafeInteger(revision) || revision < 1) {
+    errors.push({
+      field: 'expected_revision',
+      code: 'invalid_value',
+      message: 'expected_revision must be a positive integer',
+    });
+  }
+}
+
+function checkUnknownFields(
+  body: Record<string, unknown>,
+  allowed: readonly string[],
+  errors: FieldError[]
+): void {
+  for (const key of Object.keys(body)) {
+    if (!allowed.includes(key)) {
+      errors.push({
+        field: key,
+        code: 'unknown_field',
+        message: `${key} is not a recognized field`,
+      });
+    }
+  }
+}
+
+const HISTORY_FIELDS = ['datetime', 'value'] as const;
+
+const USER_FIELDS = ['email', 'display_name'] as const;
+
+/** Maximum length of `User.email`, per RFC 5321. */
+export const MAX_EMAIL_LENGTH = 254;
+
+/** Maximum length of `User.display_name`, in code points. */
+export const MAX_DISPLAY_NAME_LENGTH = 100;
+
+// Control characters, zero-width spaces and bidirectional formatting:
+// invisible in rendered names and commonly used for spoofing. The zero-width
+// (non-)joiners are allowed, as emoji sequences and some scripts need them.
+const DISALLOWED_CHARACTERS =
+  /[\p{Cc}\u200b\u200e\u200f\u202a-\u202e\u2060-\u2064\u2066-\u2069\ufeff]/u;
+
+// A pragmatic subset of RFC 5322: a dot-atom local part and a domain of at
+// least two letter/digit/hyphen labels, Unicode allowed.
+const EMAIL_PATTERN =
+  /^[\p{L}\p{N}!#$%&'*+/=?^_`{|}~-]+(\.[\p{L}\p{N}!#$%&'*+/=?^_`{|}~-]+)*@[\p{L}\p{N}]([\p{L}\p{N}-]*[\p{L}\p{N}])?(\.[\p{L}\p{N}]([\p{L}\p{N}-]*[\p{L}\p{N}])?)+$/u;
+
+/**
+ * Checks one nullable profile string after normalization, pushing an
+ * `invalid_value` error with `message` if `isValid` rejects it.
+ */
+function checkUserString(
+  field: (typeof USER_FIELDS)[number],
+  value: unknown,
+  isValid: (text: string) => boolean,
+  message: string,
+  errors: FieldError[]
+): void {
+  if (value === null) {
+    return;
+  }
+  if (typeof value !== 'string') {
+    errors.push({
+      field,
+      code: 'invalid_type',
+      message: `${field} must be a string or null`,
+    });
+  } else if (DISALLOWED_CHARACTERS.test(value)) {
+    errors.push({
+      field,
+      code: 'invalid_value',
+      message: `${field} must not contain control or zero-width characters`,
+    });
+  } else if (!isValid(value)) {
+    errors.push({ field, code: 'invalid_value', message });
+  }
+}
+
+// =============================================================================
+// Request Validators
+// =============================================================================
+
+/**
+ * Validates an untrusted payload as a {@link HistoryCreateRequest}.
+ *
+ * Both `datetime` (ISO 8601) and `value` (finite, greater than 0) are
+ * required, and no other keys are permitted. All problems are reported at
+ * once rather than stopping at the first.
+ *
+ * @param input - The raw payload, e.g. a parsed JSON request body
+ * @returns The typed request, or the list of field errors
+ *
+ * @example
+ * ```typescript
+ * const result = validateHistoryCreateRequest(await req.json());
+ * if (!result.valid) {
+ *   return errorResponse('Invalid request body');
+ * }
+ * await createHistory(result.value);
+ * ```
+ */
+export function validateHistoryCreateRequest(
+  input: unknown
+): ValidationResult<HistoryCreateRequest> {
+  if (!isPlainObject(input)) {
+    return {
+      valid: false,
+      errors: [
+        {
+          field: '',
+          code: 'invalid_body',
+          message: 'request body must be an object',
+        },
+      ],
+    };
+  }
+
+  const errors: FieldError[] = [];
+  for (const field of HISTORY_FIELDS) {
+    if (input[field] === undefined) {
+      errors.push({ field, code: 'missing', message: `${field} is required` });
+    } else if (field === 'datetime') {
+      checkDatetime(input, errors);
+    } else {
+      checkValue(input, errors);
+    }
+  }
+  checkUnknownFields(input, HISTORY_FIELDS, errors);
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  return {
+    valid: true,
+    value: { datetime: input.datetime as string, value: input.value as number },
+  };
+}
+
+/**
+ * Validates an untrusted payload as a {@link HistoryUpdateRequest}.
+ *
+ * Each field is optional but must satisfy the same rules as on create when
+ * present; `expected_revision` must be a positive integer. A body with
+ * neither `datetime` nor `value` is rejected with `empty_update`, and
+ * unknown keys are rejected with `unknown_field`.
+ *
+ * @param input - The raw payload, e.g. a parsed JSON request body
+ * @returns The typed request, or the list of field errors
+ *
+ * @example
+ * ```typescript
+ * const result = validateHistoryUpdateRequest({ value: -1 });
+ * // { valid: false, errors: [{ field: 'value', code: 'not_positive', ... }] }
+ * ```
+ */
+export function validateHistoryUpdateRequest(
+  input: unknown
+): ValidationResult<HistoryUpdateRequest> {
+  if (!isPlainObject(input)) {
+    return {
+      valid: false,
+      errors: [
+        {
+          field: '',
+          code: 'invalid_body',
+          message: 'request body must be an object',
+        },
+      ],
+    };
+  }
+
+  const errors: FieldError[] = [];
+  const value: HistoryUpdateRequest = {};
+  if (input.datetime !== undefined) {
+    checkDatetime(input, errors);
+    value.datetime = input.datetime as string;
+  }
+  if (input.value !== undefined) {
+    checkValue(input, errors);
+    value.value = input.value as number;
+  }
+  const datetimeOrValue = Object.keys(value).length > 0;
+  if (input.expected_revision !== undefined) {
+    checkRevision(input, errors);
+    value.expected_revision = input.expected_revision as number;
+  }
+  checkUnknownFields(input, [...HISTORY_FIELDS, 'expected_revision'], errors);
+
+  if (errors.length === 0 && !datetimeOrValue) {
+    errors.push({
+      field: '',
+      code: 'empty_update',
+      message: 'at least one of datetime or value must be provided',
+    });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  return { valid: true, value };
+}
+
+/**
+ * Validates an untrusted payload as a {@link UserUpdateRequest}.
+ *
+ * Strings are normalized with {@link normalizeUser} before checking, and the
+ * normalized values are returned. `email` must be a syntactically valid
+ * address of at most {@link MAX_EMAIL_LENGTH} characters; `display_name`
+ * must be 1 to {@link MAX_DISPLAY_NAME_LENGTH} code points. Neither may
+ * contain control or zero-width characters (`invalid_value`). `null` clears
+ * a field. Empty bodies and unknown keys are rejected as for history updates.
+ *
+ * @param input - The raw payload, e.g. a parsed JSON request body
+ * @returns The normalized request, or the list of field errors
+ *
+ * @example
+ * ```typescript
+ * validateUserUpdateRequest({ email: ' Jane@Example.COM ' });
+ * // { valid: true, value: { email: 'Jane@example.com' } }
+ * ```
+ */
+export function validateUserUpdateRequest(
+  input: unknown
+): ValidationResult<UserUpdateRequest> {
+  if (!isPlainObject(input)) {
+    return {
+      valid: false,
+      errors: [
+        {
+          field: '',
+          code: 'invalid_body',
+          message: 'request body must be an object',
+        },
+      ],
+    };
+  }
+
+  const errors: FieldError[] = [];
+  const value: UserUpdateRequest = {};
+  const normalized = normalizeUser(input);
+  if (input.email !== undefined) {
+    checkUserString(
+      'email',
+      normalized.email,
+      (email) => email.length <= MAX_EMAIL_LENGTH && EMAIL_PATTERN.test(email),
+      'email must be a valid email address',
+      errors
+    );
+    value.email = normalized.email as string | null;
+  }
+  if (input.display_name !== undefined) {
+    checkUserString(
+      'display_name',
+      normalized.display_name,
+      (name) => name !== '' && [...name].length <= MAX_DISPLAY_NAME_LENGTH,
+      `display_name must be 1 to ${MAX_DISPLAY_NAME_LENGTH} characters`,
+      errors
+    );
+    value.display_name = normalized.display_name as string | null;
+  }
+  checkUnknownFields(input, USER_FIELDS, errors);
+
+  if (errors.length === 0 && Object.keys(value).length === 0) {
+    errors.push({
+      field: '',
+      code: 'empty_update',
+      message: 'at least one of email or display_name must be provided',
+    });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  return { valid: true, value };
+}
+
+// =============================================================================
+// Normalization
+// =============================================================================
+
+function normalizeText(text: string): string {
+  return text.normalize('NFC').trim();
+}
+
+/**
+ * Normalizes the profile fields of a user or user update.
+ *
+ * `email` and `display_name` are Unicode-normalized (NFC) and trimmed, and
+ * the email domain is lowercased; the local part is kept as is, since it
+ * may be case-sensitive. Absent and `null` fields are left alone.
+ *
+ * @typeParam T - A `User`, `UserUpdateRequest` or similar shape
+ * @param user - The object to normalize
+ * @returns A normalized copy
+ *
+ * @example
+ * ```typescript
+ * normalizeUser({ email: 'Jane@Example.COM', display_name: ' Jane ' });
+ * // { email: 'Jane@example.com', display_name: 'Jane' }
+ * ```
+ */
+export function normalizeUser<
+  T extends Partial<Pick<User, 'email' | 'display_name'>>,
+>(user: T): T {
+  const normalized = { ...user };
+  if (typeof user.email === 'string') {
+    const email = normalizeText(user.email);
+    const at = email.lastIndexOf('@');
+    normalized.email =
+      at === -1 ? email : email.slice(0, at) + email.slice(at).toLowerCase();
+  }
+  if (typeof user.display_name === 'string') {
+    normalized.display_name = normalizeText(user.display_name);
+  }
+  return normalized;
+}
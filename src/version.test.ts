@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkCompatibility,
+  compareSemVer,
+  createOpenApiDocument,
+  parseSemVer,
+  STARTER_API_CONTRACT_VERSION,
+} from './index.js';
+
+describe('parseSemVer', () => {
+  it('should parse core, pre-release and build parts', () => {
+    expect(parseSemVer('2.0.0-beta.1+sha.5114f85')).toEqual({
+      major: 2,
+      minor: 0,
+      patch: 0,
+      prerelease: ['beta', '1'],
+      build: ['sha', '5114f85'],
+    });
+    expect(parseSemVer(STARTER_API_CONTRACT_VERSION)).not.toBeNull();
+  });
+
+  it('should reject non-semver strings', () => {
+    for (const version of ['v1.0.0', '1.0', '01.0.0', '1.0.0-', '1.0.0-01']) {
+      expect(parseSemVer(version)).toBeNull();
+    }
+  });
+});
+
+describe('compareSemVer', () => {
+  it('should order by semver precedence', () => {
+    const versions = [
+      '1.0.0',
+      '1.10.0',
+      '1.2.0',
+      '1.0.0-rc.1',
+      '1.0.0-beta.11',
+      '1.0.0-beta.2',
+      '1.0.0-beta',
+      '1.0.0-alpha.1',
+    ];
+
+    expect([...versions].sort(compareSemVer)).toEqual([
+      '1.0.0-alpha.1',
+      '1.0.0-beta',
+      '1.0.0-beta.2',
+      '1.0.0-beta.11',
+      '1.0.0-rc.1',
+      '1.0.0',
+      '1.2.0',
+      '1.10.0',
+    ]);
+    expect(compareSemVer('1.0.0+build.1', '1.0.0')).toBe(0);
+  });
+
+  it('should throw on invalid versions', () => {
+    expect(() => compareSemVer('1.0', '1.0.0')).toThrow(RangeError);
+  });
+});
+
+describe('checkCompatibility', () => {
+  const statusOf = (server: string, client: string) =>
+    checkCompatibility({ version: server }, client).status;
+
+  it('should accept the same major with a newer or equal server minor', () => {
+    expect(statusOf('1.4.2', '1.4.0')).toBe('compatible');
+    expect(statusOf('1.6.0', '1.4.0')).toBe('compatible');
+    expect(
+      checkCompatibility({ version: STARTER_API_CONTRACT_VERSION })
+    ).toEqual(
+      expect.objectContaining({ status: 'compatible', compatible: true })
+    );
+  });
+
+  it('should report which side is outdated', () => {
+    expect(statusOf('2.0.0', '1.4.0')).toBe('client_outdated');
+    expect(statusOf('1.4.0', '2.0.0')).toBe('server_outdated');
+    expect(statusOf('1.3.9', '1.4.0')).toBe('server_outdated');
+    expect(statusOf('0.3.0', '0.2.0')).toBe('client_outdated');
+  });
+
+  it('should explain the outcome', () => {
+    expect(checkCompatibility({ version: '2.1.0' }, '1.4.0')).toEqual({
+      status: 'client_outdated',
+      compatible: false,
+      clientVersion: '1.4.0',
+      serverVersion: '2.1.0',
+      reason: 'server contract 2.x is newer than client contract 1.x',
+    });
+    expect(checkCompatibility({ version: 'latest' })).toMatchObject({
+      status: 'unknown',
+      compatible: false,
+    });
+  });
+
+  it('should throw on an invalid client version', () => {
+    expect(() => checkCompatibility({ version: '1.0.0' }, 'dev')).toThrow(
+      RangeError
+    );
+  });
+
+  it('should be the default OpenAPI document version', () => {
+    expect(createOpenApiDocument().info.version).toBe(
+      STARTER_API_CONTRACT_VERSION
+    );
+  });
+});
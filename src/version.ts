@@ -0,0 +1,241 @@
+import type { ApiInfoResponse } from './types.js';
+
+// =============================================================================
+// Contract Version
+// =============================================================================
+
+/**
+ * Semantic version of the API contract described by this package.
+ *
+ * Servers report the contract they implement in `ApiInfoResponse.version`;
+ * clients compare it against this constant with {@link checkCompatibility}.
+ * A major bump marks a breaking change, a minor bump an additive one.
+ */
+export const STARTER_API_CONTRACT_VERSION = '1.1.0';
+
+// =============================================================================
+// Semver
+// =============================================================================
+
+/** A parsed semantic version (semver 2.0.0). */
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  /** Dot-separated pre-release identifiers, e.g. `['beta', '2']` */
+  prerelease: string[];
+  /** Dot-separated build metadata, ignored when comparing */
+  build: string[];
+}
+
+// From semver.org: numeric parts without leading zeros, optional
+// pre-release and build suffixes.
+const SEMVER_PATTERN =
+  /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+
+/**
+ * Parses a semantic version string.
+ *
+ * @param version - A version such as `1.4.0` or `2.0.0-beta.1+sha.5114f85`
+ * @returns The parsed version, or `null` if it is not valid semver
+ *
+ * @example
+ * ```typescript
+ * parseSemVer('1.4.0-rc.1');
+ * // { major: 1, minor: 4, patch: 0, prerelease: ['rc', '1'], build: [] }
+ * parseSemVer('v1.4'); // null
+ * ```
+ */
+export function parseSemVer(version: string): SemVer | null {
+  const match = SEMVER_PATTERN.exec(version);
+  if (!match) {
+    return null;
+  }
+  const parts = [match[1], match[2], match[3]].map(Number);
+  if (!parts.every(Number.isSafeInteger)) {
+    return null;
+  }
+  return {
+    major: parts[0],
+    minor: parts[1],
+    patch: parts[2],
+    prerelease: match[4] ? match[4].split('.') : [],
+    build: match[5] ? match[5].split('.') : [],
+  };
+}
+
+function toSemVer(version: string | SemVer): SemVer {
+  if (typeof version !== 'string') {
+    return version;
+  }
+  const parsed = parseSemVer(version);
+  if (!parsed) {
+    throw new RangeError(`Invalid semantic version: ${version}`);
+  }
+  return parsed;
+}
+
+function compareIdentifiers(a: string, b: string): number {
+  const aNumeric = /^\d+$/.test(a);
+  const bNumeric = /^\d+$/.test(b);
+  if (aNumeric && bNumeric) {
+    return Math.sign(Number(a) - Number(b));
+  }
+  if (aNumeric !== bNumeric) {
+    return aNumeric ? -1 : 1;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Compares two semantic versions by semver precedence.
+ *
+ * A pre-release sorts before its release (`1.0.0-rc.1 < 1.0.0`); build
+ * metadata is ignored.
+ *
+ * @param a - A version string or parsed version
+ * @param b - A version string or parsed version
+ * @returns `-1` if `a` is lower, `1` if higher, `0` if equal in precedence
+ * @throws {RangeError} If a string is not valid semver
+ *
+ * @example
+ * ```typescript
+ * ['1.10.0', '1.2.0', '1.2.0-beta'].sort(compareSemVer);
+ * // ['1.2.0-beta', '1.2.0', '1.10.0']
+ * ```
+ */
+export function compareSemVer(
+  a: string | SemVer,
+  b: string | SemVer
+): -1 | 0 | 1 {
+  const x = toSemVer(a);
+  const y = toSemVer(b);
+  const core =
+    Math.sign(x.major - y.major) ||
+    Math.sign(x.minor - y.minor) ||
+    Math.sign(x.patch - y.patch);
+  if (core !== 0) {
+    return core as -1 | 1;
+  }
+
+  if (x.prerelease.length === 0 || y.prerelease.length === 0) {
+    return Math.sign(y.prerelease.length - x.prerelease.length) as -1 | 0 | 1;
+  }
+  const length = Math.max(x.prerelease.length, y.prerelease.length);
+  for (let i = 0; i < length; i++) {
+    if (x.prerelease[i] === undefined) return -1;
+    if (y.prerelease[i] === undefined) return 1;
+    const order = compareIdentifiers(x.prerelease[i], y.prerelease[i]);
+    if (order !== 0) {
+      return order as -1 | 1;
+    }
+  }
+  return 0;
+}
+
+// =============================================================================
+// Compatibility
+// =============================================================================
+
+/**
+ * Outcome of {@link checkCompatibility}.
+ *
+ * - `compatible` - the client can talk to the server
+ * - `client_outdated` - the server has moved to a contract the client
+ *   predates; the app should be updated
+ * - `server_outdated` - the client expects features the server lacks
+ * - `unknown` - the server's version could not be parsed
+ */
+export type CompatibilityStatus =
+  'compatible' | 'client_outdated' | 'server_outdated' | 'unknown';
+
+/** Result of {@link checkCompatibility}. */
+export interface CompatibilityResult {
+  status: CompatibilityStatus;
+  /** Shorthand for `status === 'compatible'` */
+  compatible: boolean;
+  /** The contract version the client was built with */
+  clientVersion: string;
+  /** The contract version the server reported */
+  serverVersion: string;
+  /** Human-readable explanation, suitable for logs */
+  reason: string;
+}
+
+/**
+ * Checks whether a server's contract version works with this client.
+ *
+ * Versions are compatible when they share a major version and the server's
+ * minor version is at least the client's, since minor releases only add to
+ * the contract. Under major version `0` every minor release may break, so
+ * the minor versions must match. Patch levels, pre-release tags and build
+ * metadata are not considered.
+ *
+ * @param apiInfo - The server's `GET /` response (only `version` is read)
+ * @param clientVersion - The client's contract version. Defaults to
+ * {@link STARTER_API_CONTRACT_VERSION}.
+ * @returns The compatibility status and the reason for it
+ * @throws {RangeError} If `clientVersion` is not valid semver
+ *
+ * @example
+ * ```typescript
+ * const info = await api.getApiInfo();
+ * if (isSuccessResponse(info)) {
+ *   const result = checkCompatibility(info.data);
+ *   if (result.status === 'client_outdated') {
+ *     showUpdateBanner();
+ *   }
+ * }
+ * ```
+ */
+export function checkCompatibility(
+  apiInfo: Pick<ApiInfoResponse, 'version'>,
+  clientVersion: string = STARTER_API_CONTRACT_VERSION
+): CompatibilityResult {
+  const client = toSemVer(clientVersion);
+  const server = parseSemVer(apiInfo.version);
+  const result = (
+    status: CompatibilityStatus,
+    reason: string
+  ): CompatibilityResult => ({
+    status,
+    compatible: status === 'compatible',
+    clientVersion,
+    serverVersion: apiInfo.version,
+    reason,
+  });
+
+  if (!server) {
+    return result(
+      'unknown',
+      `server version ${apiInfo.version} is not a semantic version`
+    );
+  }
+  if (server.major !== client.major) {
+    return server.major > client.major
+      ? result(
+          'client_outdated',
+          `server contract ${server.major}.x is newer than client contract ${client.major}.x`
+        )
+      : result(
+          'server_outdated',
+          `server contract ${server.major}.x is older than client contract ${client.major}.x`
+        );
+  }
+  if (server.minor < client.minor) {
+    return result(
+      'server_outdated',
+      `server contract ${server.major}.${server.minor} lacks features of client contract ${client.major}.${client.minor}`
+    );
+  }
+  if (server.major === 0 && server.minor > client.minor) {
+    return result(
+      'client_outdated',
+      `server contract 0.${server.minor} may break client contract 0.${client.minor}`
+    );
+  }
+  return result(
+    'compatible',
+    `server contract ${apiInfo.version} satisfies client contract ${clientVersion}`
+  );
+}